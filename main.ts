@@ -1,63 +1,581 @@
-import { App, Plugin, Modal, TFile, Setting } from 'obsidian';
+import { App, Platform, Plugin, PluginSettingTab, FuzzySuggestModal, Menu, Modal, Scope, ItemView, WorkspaceLeaf, TAbstractFile, TFile, TFolder, FileView, Setting, EmbedCache, debounce, getLinkpath, normalizePath, setIcon } from 'obsidian';
 
 interface ImageViewerSettings {
 	showCopyButton: boolean;
 	enableKeyboardShortcuts: boolean;
 	zoomIncrement: number;
 	syncModalSize: boolean;
+	// Seconds per image
+	slideshowInterval: number;
+	slideshowLoop: boolean;
+	slideshowShuffle: boolean;
+	slideshowFade: boolean;
+	// Nearest-neighbour rendering when zoomed in
+	crispPixels: boolean;
+	// Start with smart invert on while the dark theme is active
+	smartInvertInDarkTheme: boolean;
 }
 
 const DEFAULT_SETTINGS: ImageViewerSettings = {
 	showCopyButton: true,
 	enableKeyboardShortcuts: true,
 	zoomIncrement: 0.2,
-	syncModalSize: true
+	syncModalSize: true,
+	slideshowInterval: 5,
+	slideshowLoop: true,
+	slideshowShuffle: false,
+	slideshowFade: true,
+	crispPixels: true,
+	smartInvertInDarkTheme: false
 }
 
-class TextInputModal extends Modal {
-	private text: string = '';
-	private onSubmit: (text: string) => void;
+// Milliseconds; the fade duration must match the opacity transition in styles.css
+const SLIDESHOW_FADE_DURATION = 300;
+const SLIDESHOW_CHROME_TIMEOUT = 2000;
 
-	constructor(app: App, onSubmit: (text: string) => void) {
+// Everything Obsidian can display in an image embed
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'jfif', 'gif', 'apng', 'webp', 'avif', 'bmp', 'svg', 'ico', 'tif', 'tiff'];
+
+function isImageFile(file: TFile): boolean {
+	return IMAGE_EXTENSIONS.includes(file.extension.toLowerCase());
+}
+
+const VIEW_TYPE_IMAGE_BROWSER = 'enhanced-image-browser';
+const IMAGE_BROWSER_TILE_SIZE = 140;
+const IMAGE_BROWSER_GAP = 8;
+
+const BACKLINK_SNIPPET_LENGTH = 140;
+
+const MIN_ZOOM_SCALE = 0.1;
+const MAX_ZOOM_SCALE = 32;
+// Screen pixels per image pixel from which crisp pixel rendering kicks in
+const CRISP_PIXELS_SCALE = 2;
+// Trackpad pinches report small ctrl+wheel deltas
+const PINCH_ZOOM_SENSITIVITY = 0.01;
+
+// Touch gesture thresholds, in CSS pixels and milliseconds
+const TAP_SLOP = 10;
+const DOUBLE_TAP_DELAY = 300;
+const SWIPE_DISTANCE = 60;
+const SWIPE_MAX_DURATION = 600;
+
+// Longest side of the navigator minimap, in CSS pixels
+const MINIMAP_SIZE = 160;
+
+// Pixel differences are computed at most this size, and only count above this per-channel delta
+const COMPARE_DIFF_MAX_SIZE = 1600;
+const COMPARE_DIFF_THRESHOLD = 24;
+
+// Animated formats ImageDecoder can step through
+const ANIMATION_MIME_TYPES: Record<string, string> = {
+	gif: 'image/gif',
+	png: 'image/png',
+	apng: 'image/apng',
+	webp: 'image/webp',
+	avif: 'image/avif'
+};
+const ANIMATION_SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
+// Milliseconds; shorter frame delays are played at the default, like browsers do
+const ANIMATION_MIN_FRAME_DURATION = 10;
+const ANIMATION_DEFAULT_FRAME_DURATION = 100;
+// Bytes read to tell animated files from still ones before anything is decoded
+const ANIMATION_HEADER_BYTES = 64 * 1024;
+
+// How many images on each side of the current one are decoded ahead of time
+const PRELOAD_RADIUS = 2;
+// Decoded bitmap budget; phones get a much smaller one
+const PRELOAD_CACHE_BYTES = 512 * 1024 * 1024;
+const PRELOAD_CACHE_BYTES_MOBILE = 96 * 1024 * 1024;
+
+// Annotations are stored next to the image as "<image path>.annotations.json"
+const ANNOTATION_SIDECAR_SUFFIX = '.annotations.json';
+const ANNOTATION_FORMAT_VERSION = 1;
+
+const MAX_ANNOTATION_HISTORY = 100;
+const TEXT_LINE_HEIGHT = 1.25;
+const MAX_REDACTION_CACHE = 20;
+
+// All annotation coordinates and sizes are in natural image pixels
+interface AnnotationPoint {
+	x: number;
+	y: number;
+}
+
+interface AnnotationBounds {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+interface AnnotationBase {
+	id: string;
+}
+
+interface StrokeAnnotation extends AnnotationBase {
+	type: 'stroke' | 'erase' | 'highlight';
+	points: AnnotationPoint[];
+	color: string;
+	width: number;
+}
+
+interface TextAnnotation extends AnnotationBase {
+	type: 'text';
+	// Baseline of the first line
+	x: number;
+	y: number;
+	// May contain line breaks
+	text: string;
+	color: string;
+	fontSize: number;
+	bold?: boolean;
+	// Fill colour behind the text, null for none
+	background?: string | null;
+}
+
+interface ShapeAnnotation extends AnnotationBase {
+	type: 'shape';
+	shape: ShapeTool;
+	start: AnnotationPoint;
+	end: AnnotationPoint;
+	color: string;
+	width: number;
+}
+
+type RedactionStyle = 'pixelate' | 'blur' | 'solid';
+
+// Hides a rectangle of the image; baked into the real pixels when saving or copying
+interface RedactAnnotation extends AnnotationBase {
+	type: 'redact';
+	style: RedactionStyle;
+	start: AnnotationPoint;
+	end: AnnotationPoint;
+	// Fill colour for solid redactions
+	color: string;
+}
+
+// Numbered badge; the number is its position among the markers, so deleting one renumbers the rest
+interface MarkerAnnotation extends AnnotationBase {
+	type: 'marker';
+	// Centre of the badge
+	x: number;
+	y: number;
+	radius: number;
+	color: string;
+}
+
+type MeasureShape = 'line' | 'box';
+
+// Distance or size readout; the label is worked out from the image's measuring scale when drawn
+interface MeasureAnnotation extends AnnotationBase {
+	type: 'measure';
+	shape: MeasureShape;
+	start: AnnotationPoint;
+	end: AnnotationPoint;
+	color: string;
+	width: number;
+	fontSize: number;
+}
+
+type Annotation = StrokeAnnotation | TextAnnotation | ShapeAnnotation | RedactAnnotation | MarkerAnnotation | MeasureAnnotation;
+
+type ShapeTool = 'arrow' | 'line' | 'rectangle' | 'ellipse';
+
+type ViewerMode = 'view' | 'draw' | 'text' | 'erase' | 'select' | 'highlight' | 'crop' | 'redact' | 'marker' | 'inspect' | 'measure' | ShapeTool;
+
+type CropHandle = 'new' | 'move' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Ratios are width / height as seen on screen
+const CROP_ASPECT_RATIOS: { label: string; ratio: number | null }[] = [
+	{ label: 'Free', ratio: null },
+	{ label: '1:1', ratio: 1 },
+	{ label: '16:9', ratio: 16 / 9 },
+	{ label: '4:3', ratio: 4 / 3 }
+];
+
+// Real-world units per image pixel, e.g. from a line of known length on a floor plan
+interface MeasureScale {
+	unitsPerPixel: number;
+	unit: string;
+}
+
+interface AnnotationDocument {
+	version: number;
+	imageWidth: number;
+	imageHeight: number;
+	annotations: Annotation[];
+	measureScale?: MeasureScale | null;
+}
+
+// Percentages, except hueRotate which is in degrees
+interface ImageAdjustments {
+	brightness: number;
+	contrast: number;
+	saturation: number;
+	grayscale: number;
+	invert: number;
+	hueRotate: number;
+}
+
+const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+	brightness: 100,
+	contrast: 100,
+	saturation: 100,
+	grayscale: 0,
+	invert: 0,
+	hueRotate: 0
+};
+
+// The parts of WebCodecs' ImageDecoder used for animation playback; TypeScript's DOM library doesn't ship it yet
+interface AnimationFrameImage {
+	// Microseconds
+	duration: number | null;
+	close(): void;
+}
+
+interface AnimationImageDecoder {
+	tracks: {
+		ready: Promise<void>;
+		selectedTrack: { animated: boolean; frameCount: number } | null;
+	};
+	completed: Promise<void>;
+	decode(options: { frameIndex: number }): Promise<{ image: AnimationFrameImage }>;
+	close(): void;
+}
+
+interface AnimationImageDecoderConstructor {
+	new (init: { data: ArrayBuffer; type: string }): AnimationImageDecoder;
+	isTypeSupported(type: string): Promise<boolean>;
+}
+
+type ZoomPreset = 'fit' | 'fit-width' | 'fit-height' | 'actual' | 'double';
+
+type CompareMode = 'side-by-side' | 'swipe' | 'onion';
+
+interface CompareCandidate {
+	src: string;
+	label: string;
+}
+
+type SaveImageMode = 'overwrite' | 'copy' | 'copy-and-relink';
+
+interface SaveImageOptions {
+	title: string;
+	description: string;
+	copySuffix: string;
+	canOverwrite: boolean;
+}
+
+class SaveImageModal extends Modal {
+	private options: SaveImageOptions;
+	private onChoose: (mode: SaveImageMode) => void;
+
+	constructor(app: App, options: SaveImageOptions, onChoose: (mode: SaveImageMode) => void) {
+		super(app);
+		this.options = options;
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: this.options.title });
+		contentEl.createEl("p", { text: this.options.description });
+
+		new Setting(contentEl)
+			.setName("Overwrite original")
+			.setDesc(this.options.canOverwrite ? "Replace the image file in the vault." : "Not available for this file type.")
+			.addButton((btn) =>
+				btn
+					.setButtonText("Overwrite")
+					.setWarning()
+					.setDisabled(!this.options.canOverwrite)
+					.onClick(() => this.choose('overwrite'))
+			);
+
+		new Setting(contentEl)
+			.setName("Save as copy")
+			.setDesc(`Write a new "${this.options.copySuffix}" file next to the original.`)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save copy")
+					.setCta()
+					.onClick(() => this.choose('copy'))
+			);
+
+		new Setting(contentEl)
+			.setName("Save copy and update note")
+			.setDesc("Write a copy and point the embeds in the current note at it.")
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save and relink")
+					.onClick(() => this.choose('copy-and-relink'))
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private choose(mode: SaveImageMode) {
+		this.close();
+		this.onChoose(mode);
+	}
+}
+
+class ExportImagesModal extends Modal {
+	private folder: string;
+	private count: number;
+	private onSubmit: (folder: string) => void;
+
+	constructor(app: App, defaultFolder: string, count: number, onSubmit: (folder: string) => void) {
 		super(app);
+		this.folder = defaultFolder;
+		this.count = count;
 		this.onSubmit = onSubmit;
 	}
 
 	onOpen() {
 		const { contentEl } = this;
-		contentEl.createEl("h2", { text: "텍스트 입력" });
+		contentEl.createEl("h2", { text: "Export images" });
+		contentEl.createEl("p", { text: `Copy ${this.count} image${this.count === 1 ? '' : 's'} into a vault folder. It is created if it doesn't exist.` });
 
 		new Setting(contentEl)
-			.setName("텍스트")
+			.setName("Folder")
 			.addText((text) =>
-				text.onChange((value) => {
-					this.text = value;
-				})
+				text
+					.setValue(this.folder)
+					.onChange((value) => {
+						this.folder = value;
+					})
 			);
 
 		new Setting(contentEl)
 			.addButton((btn) =>
 				btn
-					.setButtonText("추가")
+					.setButtonText("Export")
 					.setCta()
-					.onClick(() => {
-						this.close();
-						this.onSubmit(this.text);
-					})
-			)
+					.onClick(() => this.submit())
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private submit() {
+		const folder = normalizePath(this.folder.trim());
+		if (!folder || folder === '/') return;
+
+		this.close();
+		this.onSubmit(folder);
+	}
+}
+
+class CopyAnimationModal extends Modal {
+	private onChoose: (currentFrame: boolean) => void;
+
+	constructor(app: App, onChoose: (currentFrame: boolean) => void) {
+		super(app);
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Copy animated image" });
+		contentEl.createEl("p", { text: "The clipboard can only hold still images." });
+
+		new Setting(contentEl)
+			.setName("Current frame")
+			.setDesc("Copy the frame on screen as a PNG, with annotations and rotation.")
+			.addButton((btn) =>
+				btn
+					.setButtonText("Copy frame")
+					.setCta()
+					.onClick(() => this.choose(true))
+			);
+
+		new Setting(contentEl)
+			.setName("Animated image")
+			.setDesc("Copy an embed link that keeps the animation when pasted into a note.")
 			.addButton((btn) =>
 				btn
-					.setButtonText("취소")
-					.onClick(() => {
-						this.close();
+					.setButtonText("Copy link")
+					.onClick(() => this.choose(false))
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private choose(currentFrame: boolean) {
+		this.close();
+		this.onChoose(currentFrame);
+	}
+}
+
+class MeasureScaleModal extends Modal {
+	private pixels: number;
+	private length: string = '';
+	private unit: string;
+	private onSubmit: (length: number, unit: string) => void;
+
+	constructor(app: App, pixels: number, defaultUnit: string, onSubmit: (length: number, unit: string) => void) {
+		super(app);
+		this.pixels = pixels;
+		this.unit = defaultUnit;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Set measuring scale" });
+		contentEl.createEl("p", { text: `The measured line is ${Math.round(this.pixels)} pixels long. Enter its real length to measure in those units on this image.` });
+
+		new Setting(contentEl)
+			.setName("Length")
+			.addText((text) => {
+				text
+					.setPlaceholder("10")
+					.onChange((value) => {
+						this.length = value;
+					});
+				text.inputEl.type = 'number';
+			});
+
+		new Setting(contentEl)
+			.setName("Unit")
+			.addText((text) =>
+				text
+					.setValue(this.unit)
+					.onChange((value) => {
+						this.unit = value;
 					})
 			);
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Set scale")
+					.setCta()
+					.onClick(() => this.submit())
+			);
 	}
 
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
 	}
+
+	private submit() {
+		const length = parseFloat(this.length);
+		const unit = this.unit.trim();
+		if (!isFinite(length) || length <= 0 || !unit) return;
+
+		this.close();
+		this.onSubmit(length, unit);
+	}
+}
+
+class CompareImageSuggestModal extends FuzzySuggestModal<CompareCandidate> {
+	private candidates: CompareCandidate[];
+	private onChoose: (candidate: CompareCandidate) => void;
+
+	constructor(app: App, candidates: CompareCandidate[], onChoose: (candidate: CompareCandidate) => void) {
+		super(app);
+		this.candidates = candidates;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Pick an image to compare with');
+	}
+
+	getItems(): CompareCandidate[] {
+		return this.candidates;
+	}
+
+	getItemText(candidate: CompareCandidate): string {
+		return candidate.label;
+	}
+
+	onChooseItem(candidate: CompareCandidate) {
+		this.onChoose(candidate);
+	}
+}
+
+// Keeps recently viewed and upcoming images decoded, evicting the least recently used past a memory budget
+class ImagePreloadCache {
+	private entries: Map<string, { image: HTMLImageElement; bytes: number }> = new Map();
+	private pending: Map<string, Promise<void>> = new Map();
+	private usedBytes: number = 0;
+	private maxBytes: number;
+	// Bumped by clear() so decodes still in flight are dropped
+	private generation: number = 0;
+
+	constructor(maxBytes: number) {
+		this.maxBytes = maxBytes;
+	}
+
+	has(src: string): boolean {
+		return this.entries.has(src);
+	}
+
+	touch(src: string) {
+		// Map iteration order doubles as the LRU order
+		const entry = this.entries.get(src);
+		if (!entry) return;
+		this.entries.delete(src);
+		this.entries.set(src, entry);
+	}
+
+	preload(src: string): Promise<void> {
+		if (this.entries.has(src)) {
+			this.touch(src);
+			return Promise.resolve();
+		}
+
+		const existing = this.pending.get(src);
+		if (existing) return existing;
+
+		const generation = this.generation;
+		const image = new Image();
+		image.decoding = 'async';
+		image.src = src;
+		const request: Promise<void> = image.decode()
+			.then(() => {
+				if (generation !== this.generation) return;
+				// Decoded bitmaps are roughly four bytes per pixel
+				const bytes = Math.max(1, image.naturalWidth * image.naturalHeight * 4);
+				this.entries.set(src, { image, bytes });
+				this.usedBytes += bytes;
+				this.evict(src);
+			})
+			.catch((error) => {
+				console.error('Could not preload image:', src, error);
+			})
+			.finally(() => {
+				if (this.pending.get(src) === request) this.pending.delete(src);
+			});
+		this.pending.set(src, request);
+		return request;
+	}
+
+	clear() {
+		this.entries.clear();
+		this.pending.clear();
+		this.usedBytes = 0;
+		this.generation++;
+	}
+
+	private evict(keep: string) {
+		for (const [src, entry] of this.entries) {
+			if (this.usedBytes <= this.maxBytes) break;
+			if (src === keep) continue;
+			this.entries.delete(src);
+			this.usedBytes -= entry.bytes;
+		}
+	}
 }
 
 export default class ImageViewerPlugin extends Plugin {
@@ -65,6 +583,16 @@ export default class ImageViewerPlugin extends Plugin {
 
 	async onload() {
 		await this.loadSettings();
+		this.addSettingTab(new ImageViewerSettingTab(this.app, this));
+
+		// Vault-wide image browser
+		this.registerView(VIEW_TYPE_IMAGE_BROWSER, (leaf) => new ImageBrowserView(leaf, this));
+		this.addRibbonIcon('image', 'Open image browser', () => this.activateImageBrowser());
+		this.addCommand({
+			id: 'open-image-browser',
+			name: 'Open image browser',
+			callback: () => this.activateImageBrowser()
+		});
 
 		// Add mousedown event listener to main document
 		this.registerDomEvent(document, 'mousedown', this.handleImageMouseDown.bind(this), true);
@@ -80,12 +608,37 @@ export default class ImageViewerPlugin extends Plugin {
 				this.registerDomEvent(window.document, 'mousedown', this.handleImageMouseDown.bind(this), true);
 			})
 		);
+
+		// Keep annotation sidecars next to their image
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				this.moveAnnotationSidecar(file, oldPath);
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				this.removeAnnotationSidecar(file);
+			})
+		);
 	}
 
 	onunload() {
 		// Clean up event listeners
 	}
 
+	async activateImageBrowser() {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_IMAGE_BROWSER);
+		if (existing.length > 0) {
+			this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const leaf = this.app.workspace.getLeaf('tab');
+		await leaf.setViewState({ type: VIEW_TYPE_IMAGE_BROWSER, active: true });
+		this.app.workspace.revealLeaf(leaf);
+	}
+
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
 	}
@@ -94,6 +647,35 @@ export default class ImageViewerPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	async moveAnnotationSidecar(file: TAbstractFile, oldPath: string) {
+		if (!(file instanceof TFile) || file.path.endsWith(ANNOTATION_SIDECAR_SUFFIX)) return;
+
+		const adapter = this.app.vault.adapter;
+		const oldSidecarPath = oldPath + ANNOTATION_SIDECAR_SUFFIX;
+		try {
+			// Folder renames move the sidecar along with the image, so it may already be gone
+			if (await adapter.exists(oldSidecarPath)) {
+				await adapter.rename(oldSidecarPath, file.path + ANNOTATION_SIDECAR_SUFFIX);
+			}
+		} catch (error) {
+			console.error('Failed to move annotation sidecar:', error);
+		}
+	}
+
+	async removeAnnotationSidecar(file: TAbstractFile) {
+		if (!(file instanceof TFile) || file.path.endsWith(ANNOTATION_SIDECAR_SUFFIX)) return;
+
+		const adapter = this.app.vault.adapter;
+		const sidecarPath = file.path + ANNOTATION_SIDECAR_SUFFIX;
+		try {
+			if (await adapter.exists(sidecarPath)) {
+				await adapter.remove(sidecarPath);
+			}
+		} catch (error) {
+			console.error('Failed to remove annotation sidecar:', error);
+		}
+	}
+
 	setupPopoutWindowListeners() {
 		// Get all existing popout windows
 		const leaves = this.app.workspace.getLeavesOfType('markdown');
@@ -140,6 +722,7 @@ export default class ImageViewerPlugin extends Plugin {
 		// Check if clicked element is an image and not inside an existing modal or dialog
 		if (target.tagName === 'IMG' && 
 		    !target.closest('.image-viewer-modal') &&
+		    !target.closest('.image-browser-view') &&
 		    !target.closest('.modal') &&
 		    !target.closest('.modal-container') &&
 		    !target.closest('.dialog') &&
@@ -147,7 +730,7 @@ export default class ImageViewerPlugin extends Plugin {
 		    !target.closest('.suggestion-container') &&
 		    !target.closest('.menu') &&
 		    !target.closest('.dropdown') &&
-		    !target.closest('.popover') &&
+		    (!target.closest('.popover') || target.closest('.hover-popover')) &&
 		    !target.closest('.tooltip')) {
 			
 			// Only prevent default for content images, not UI elements
@@ -169,19 +752,62 @@ export default class ImageViewerPlugin extends Plugin {
 				console.log('Opening image viewer in window:', sourceWindow === window ? 'main' : 'popout');
 				
 				// Create modal in the correct app context but with awareness of source window
-				const modal = new ImageViewerModal(this.app, img.src, this.settings, sourceDocument);
+				const modal = new ImageViewerModal(this.app, img.src, this.settings, sourceDocument, this.findSourceNote(img));
 				modal.open();
 			}
 		}
 	}
+
+	findSourceNote(img: HTMLImageElement): TFile | null {
+		// The leaf showing the image, in whichever window it lives
+		const containingFiles: TFile[] = [];
+		this.app.workspace.iterateAllLeaves(leaf => {
+			if (leaf.view instanceof FileView && leaf.view.file && leaf.view.containerEl.contains(img)) {
+				containingFiles.push(leaf.view.file);
+			}
+		});
+		const leafFile = containingFiles[0] || null;
+
+		// Images inside a transcluded note belong to that note
+		const embedEl = img.closest('.markdown-embed[src]');
+		const embedSrc = embedEl?.getAttribute('src');
+		if (embedSrc) {
+			const embedded = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(embedSrc), leafFile?.path || '');
+			if (embedded) return embedded;
+		}
+		if (leafFile) return leafFile;
+
+		// Hover previews aren't leaves, so fall back to the notes that embed this image
+		const imagePath = img.src.split('?')[0];
+		const imageFile = this.app.vault.getFiles().find(file =>
+			this.app.vault.getResourcePath(file).split('?')[0] === imagePath
+		);
+		if (!imageFile) return null;
+
+		const embeddingNotes = Object.keys(this.app.metadataCache.resolvedLinks).filter(notePath =>
+			this.app.metadataCache.resolvedLinks[notePath][imageFile.path]
+		);
+		if (embeddingNotes.length === 1) {
+			const note = this.app.vault.getAbstractFileByPath(embeddingNotes[0]);
+			return note instanceof TFile ? note : null;
+		}
+		return null;
+	}
 }
 
 class ImageViewerModal extends Modal {
 	private imageSrc: string;
 	private sourceDocument: Document;
+	// The note the clicked image was embedded in
+	private sourceFile: TFile | null;
+	// Navigation list handed in by the caller, e.g. the filtered image browser
+	private presetImages: string[] | null;
 	private settings: ImageViewerSettings;
 	private currentScale: number = 1;
 	private currentRotation: number = 0;
+	// Mirroring in image space, applied before the rotation
+	private flipHorizontal: boolean = false;
+	private flipVertical: boolean = false;
 	private imageElement: HTMLImageElement;
 	private containerElement: HTMLElement;
 	private isResizing: boolean = false;
@@ -191,6 +817,7 @@ class ImageViewerModal extends Modal {
 	private controlsHeight: number = 50;
 	private allImages: string[] = [];
 	private currentImageIndex: number = 0;
+	private resourceFiles: Map<string, TFile> | null = null;
 	private imageOffsetX: number = 0;
 	private imageOffsetY: number = 0;
 	
@@ -198,10 +825,177 @@ class ImageViewerModal extends Modal {
 	private canvasElement: HTMLCanvasElement;
 	private canvasContext: CanvasRenderingContext2D;
 	private isDrawing: boolean = false;
-	private currentMode: 'view' | 'draw' | 'text' | 'erase' = 'view';
+	private currentMode: ViewerMode = 'view';
 	private drawingColor: string = '#ff0000';
 	private drawingLineWidth: number = 3;
-	private lastDrawPoint: { x: number, y: number } | null = null;
+	private annotations: Annotation[] = [];
+	private activeStroke: StrokeAnnotation | null = null;
+	private activeShape: ShapeAnnotation | null = null;
+	private selectedAnnotationId: string | null = null;
+	private textFontSize: number = 16;
+	private textBold: boolean = false;
+	private textBackgroundEnabled: boolean = false;
+	private textBackgroundColor: string = '#ffffff';
+	private textEditor: {
+		element: HTMLTextAreaElement;
+		existing: TextAnnotation | null;
+		anchor: AnnotationPoint;
+		scope: Scope;
+	} | null = null;
+	private textSettingsInputs: {
+		colorPicker: HTMLInputElement;
+		sizeSlider: HTMLInputElement;
+		sizeValue: HTMLElement;
+		boldToggle: HTMLInputElement;
+		backgroundToggle: HTMLInputElement;
+		backgroundPicker: HTMLInputElement;
+	} | null = null;
+	// Pixel inspector readout and the natural-size copy of the image it reads from
+	private inspectReadout: HTMLElement | null = null;
+	private inspectCanvas: HTMLCanvasElement | null = null;
+	private inspectKey: string = '';
+	private moveData: {
+		id: string;
+		startPoint: AnnotationPoint;
+		original: Annotation;
+		snapshot: Annotation[];
+		moved: boolean;
+	} | null = null;
+	private undoStack: Annotation[][] = [];
+
+	private redoStack: Annotation[][] = [];
+	private activeRedaction: RedactAnnotation | null = null;
+	private redactionStyle: RedactionStyle = 'pixelate';
+	// Rendered pixelate/blur patches, keyed by style and area
+	private redactionCache: Map<string, HTMLCanvasElement> = new Map();
+	
+	// Crop-related properties
+	private cropRect: AnnotationBounds | null = null;
+	private cropAspectRatio: number | null = null;
+	private cropDrag: {
+		handle: CropHandle;
+		startPoint: AnnotationPoint;
+		startRect: AnnotationBounds;
+	} | null = null;
+	private cropPanel: HTMLElement;
+	private cropSizeLabel: HTMLElement;
+	
+	// Measure-related properties
+	private measureShape: MeasureShape = 'line';
+	// The measurement being dragged, or the last one until it is kept or replaced
+	private activeMeasurement: MeasureAnnotation | null = null;
+	private measureScale: MeasureScale | null = null;
+	private measurePanel: HTMLElement;
+	private measureResultLabel: HTMLElement;
+	private measureScaleLabel: HTMLElement;
+	private measureSetScaleButton: HTMLButtonElement;
+	private measureClearScaleButton: HTMLButtonElement;
+	private measureKeepButton: HTMLButtonElement;
+	
+	// Filmstrip-related properties
+	private filmstripElement: HTMLElement;
+	private filmstripTrack: HTMLElement;
+	private filmstripCounter: HTMLElement;
+	private filmstripObserver: IntersectionObserver | null = null;
+	private filmstripCollapsed: boolean = false;
+	
+	// Grid-related properties
+	private gridElement: HTMLElement | null = null;
+	private gridCountLabel: HTMLElement;
+	private gridSelection: Set<number> = new Set();
+	private gridLastClicked: number | null = null;
+	private gridObserver: IntersectionObserver | null = null;
+	
+	// Slideshow-related properties
+	private slideshowActive: boolean = false;
+	private slideshowPaused: boolean = false;
+	private slideshowInterval: number;
+	private slideshowLoop: boolean;
+	private slideshowShuffle: boolean;
+	// Indices still to show in this round
+	private slideshowQueue: number[] = [];
+	private slideshowTimer: number | null = null;
+	private slideshowChromeTimer: number | null = null;
+	private slideshowBar: HTMLElement;
+	private slideshowPlayButton: HTMLButtonElement;
+	
+	// Notes that use the current image
+	private backlinksPanel: HTMLElement | null = null;
+	
+	// Active touch pointers and the gesture they form
+	private touchPointers: Map<number, AnnotationPoint> = new Map();
+	private touchGesture: {
+		startPoint: AnnotationPoint;
+		startDistance: number;
+		startScale: number;
+		startOffsetX: number;
+		startOffsetY: number;
+		startCenter: AnnotationPoint;
+		startTime: number;
+		pointerCount: number;
+		moved: boolean;
+	} | null = null;
+	private lastTap: { x: number; y: number; time: number } | null = null;
+	private zoomReadout: HTMLElement;
+	private zoomEditScope: Scope | null = null;
+	
+	// Navigator minimap shown while the image overflows the window
+	private minimapElement: HTMLElement;
+	private minimapCanvas: HTMLCanvasElement;
+	private minimapViewport: HTMLElement;
+	// Source and rotation the minimap was last drawn for
+	private minimapKey: string = '';
+	private minimapDrag: {
+		startX: number;
+		startY: number;
+		startOffsetX: number;
+		startOffsetY: number;
+		ratio: number;
+	} | null = null;
+	
+	// Display adjustments, applied as a CSS filter until they are baked into a file
+	private adjustments: ImageAdjustments = { ...DEFAULT_ADJUSTMENTS };
+	private adjustmentsPanel: HTMLElement;
+	private adjustmentsPanelOpen: boolean = false;
+	private adjustmentInputs: { key: keyof ImageAdjustments; slider: HTMLInputElement; value: HTMLElement }[] = [];
+	private smartInvertButton: HTMLButtonElement;
+	
+	// Animated image playback, active only once ImageDecoder has found more than one frame
+	private animationDecoder: AnimationImageDecoder | null = null;
+	private animationCanvas: HTMLCanvasElement;
+	private animationFrameCount: number = 0;
+	private animationFrameIndex: number = 0;
+	private animationPlaying: boolean = false;
+	private animationSpeed: number = 1;
+	private animationTimer: number | null = null;
+	// Bumped on every decode request so stale frames are dropped
+	private animationRequest: number = 0;
+	private animationBar: HTMLElement;
+	private animationPlayButton: HTMLElement;
+	private animationScrubber: HTMLInputElement;
+	private animationCounter: HTMLElement;
+	
+	// Compare mode
+	private compareMode: CompareMode | null = null;
+	private comparePane: HTMLElement;
+	private compareStage: HTMLElement;
+	private compareImage: HTMLImageElement;
+	private compareDiffCanvas: HTMLCanvasElement;
+	private compareDivider: HTMLElement;
+	private compareDividerDragging: boolean = false;
+	private compareBar: HTMLElement;
+	private compareNameLabel: HTMLElement;
+	private compareOpacityGroup: HTMLElement;
+	private compareDiffToggle: HTMLInputElement;
+	private compareDiffLabel: HTMLElement;
+	// Where the swipe divider sits, as a fraction of the width
+	private compareSwipePosition: number = 0.5;
+	private compareOpacity: number = 0.5;
+	private compareShowDiff: boolean = false;
+	
+	// Loading state and preloading
+	private imageCache: ImagePreloadCache = new ImagePreloadCache(Platform.isMobile ? PRELOAD_CACHE_BYTES_MOBILE : PRELOAD_CACHE_BYTES);
+	private loadErrorElement: HTMLElement;
 	private dragData: {
 		startX: number;
 		startY: number;
@@ -216,146 +1010,92 @@ class ImageViewerModal extends Modal {
 		direction: string;
 	} | null = null;
 
-	constructor(app: App, imageSrc: string, settings: ImageViewerSettings, sourceDocument?: Document) {
+	constructor(app: App, imageSrc: string, settings: ImageViewerSettings, sourceDocument?: Document, sourceFile?: TFile | null, imageList?: string[]) {
 		super(app);
 		this.imageSrc = imageSrc;
 		this.settings = settings;
 		this.sourceDocument = sourceDocument || document;
+		this.sourceFile = sourceFile || null;
+		this.presetImages = imageList || null;
+		this.slideshowInterval = settings.slideshowInterval;
+		this.slideshowLoop = settings.slideshowLoop;
+		this.slideshowShuffle = settings.slideshowShuffle;
 		// Don't call findAllImages here - it's now async and will be called from onOpen
 	}
 
 	private async findAllImages() {
-		console.log('=== FINDING ALL IMAGES (Obsidian API Method) ===');
+		const note = this.sourceFile;
+		if (this.presetImages) {
+			this.allImages = [...this.presetImages];
+		} else if (note) {
+			this.allImages = await this.getEmbeddedImageSources(note);
+		} else {
+			await this.findImagesByDOM();
+		}
 		
-		try {
-			// Method 1: Parse markdown source for internal links
-			const activeFile = this.app.workspace.getActiveFile();
-			if (activeFile) {
-				console.log('Active file found:', activeFile.name);
-				
-				// Read the markdown content
-				const content = await this.app.vault.cachedRead(activeFile);
-				console.log('File content length:', content.length);
-				
-				// Extract image links using regex: ![[image.ext]] or ![](image.ext)
-				const imageRegex = /!\[\[([^\]]+\.(png|jpg|jpeg|gif|webp|bmp|svg))\]\]|!\[.*?\]\(([^)]+\.(png|jpg|jpeg|gif|webp|bmp|svg))\)/gi;
-				const matches = [...content.matchAll(imageRegex)];
-				
-				console.log('Found image links in markdown:', matches.length);
-				
-				const imageNames: string[] = [];
-				matches.forEach((match, index) => {
-					// match[1] is for ![[image.ext]] format, match[3] is for ![](image.ext) format
-					const imageName = match[1] || match[3];
-					console.log(`Image ${index}: ${imageName}`);
-					imageNames.push(imageName);
-				});
-				
-				// Method 2: Get all image files from vault
-				const allFiles = this.app.vault.getFiles();
-				const imageFiles = allFiles.filter(file => 
-					/\.(png|jpg|jpeg|gif|webp|bmp|svg)$/i.test(file.name)
-				);
-				
-				console.log('Total image files in vault:', imageFiles.length);
-				
-				// Method 3: Match found names with actual files and generate URLs
-				const foundImages: string[] = [];
-				
-				for (const imageName of imageNames) {
-					// Find the actual file
-					const imageFile = imageFiles.find(f => 
-						f.name === imageName || 
-						f.name.includes(imageName) ||
-						imageName.includes(f.name)
-					);
-					
-					if (imageFile) {
-						// Generate proper Obsidian resource URL
-						const resourcePath = this.app.vault.getResourcePath(imageFile);
-						console.log(`Matched "${imageName}" -> ${resourcePath}`);
-						foundImages.push(resourcePath);
-					} else {
-						console.log(`Could not find file for: ${imageName}`);
-					}
-				}
-				
-				// If we found images via markdown parsing, use those
-				if (foundImages.length > 0) {
-					this.allImages = foundImages;
-					console.log('Using markdown-parsed images:', this.allImages.length);
-				} else {
-					// Fallback: use images from the same folder as current image
-					console.log('Fallback: using folder-based approach');
-					await this.findImagesByFolder(imageFiles);
-				}
-				
-			} else {
-				console.log('No active file found, using DOM-based approach');
-				await this.findImagesByDOM();
-			}
-			
-		} catch (error) {
-			console.error('Error in findAllImages:', error);
-			// Final fallback to DOM-based approach
-			await this.findImagesByDOM();
+		// Resource URLs carry a cache-busting query that changes when the file does
+		const stripQuery = (src: string) => src.split('?')[0];
+		this.currentImageIndex = this.allImages.indexOf(this.imageSrc);
+		if (this.currentImageIndex === -1) {
+			this.currentImageIndex = this.allImages.findIndex(src => stripQuery(src) === stripQuery(this.imageSrc));
 		}
 		
-		// Find current image index
-		this.currentImageIndex = this.allImages.findIndex(src => {
-			// Compare by filename or full path
-			const currentFilename = this.imageSrc.split('/').pop()?.split('?')[0];
-			const srcFilename = src.split('/').pop()?.split('?')[0];
-			return src === this.imageSrc || srcFilename === currentFilename;
-		});
-		
 		if (this.currentImageIndex === -1) {
 			console.log('Current image not found in list, adding to beginning');
 			this.allImages.unshift(this.imageSrc);
 			this.currentImageIndex = 0;
 		}
-		
-		console.log('=== FINAL RESULTS ===');
-		console.log('Final image array:', this.allImages);
-		console.log('Current image index:', this.currentImageIndex);
-		console.log('Total images:', this.allImages.length);
-		console.log('Should enable navigation?', this.allImages.length > 1);
-		console.log('===================');
 	}
 
-	private async findImagesByFolder(allImageFiles: any[]) {
-		try {
-			// Extract folder path from current image
-			const currentPath = decodeURIComponent(this.imageSrc);
-			const pathMatch = currentPath.match(/\/([^\/]+\.(png|jpg|jpeg|gif|webp|bmp|svg))/i);
+	private async getEmbeddedImageSources(note: TFile): Promise<string[]> {
+		const cache = this.app.metadataCache.getFileCache(note);
+		const embeds = cache?.embeds || [];
+		const found: { offset: number; src: string }[] = [];
+		
+		embeds.forEach(embed => {
+			const link = embed.link.trim();
+			const offset = embed.position.start.offset;
+			if (/^https?:\/\//i.test(link)) {
+				found.push({ offset, src: link });
+				return;
+			}
 			
-			if (pathMatch) {
-				const currentFilename = pathMatch[1];
-				console.log('Current image filename:', currentFilename);
-				
-				// Find files in the same folder or with similar names
-				const relatedImages = allImageFiles.filter(file => {
-					// Check if it's in attachments folder or similar folder structure
-					return file.path.includes('attachments') || 
-					       file.path.includes('images') ||
-					       file.path.includes('Pasted image'); // Common Obsidian pattern
-				});
-				
-				console.log('Found related images:', relatedImages.length);
-				
-				// Generate resource paths
-				this.allImages = relatedImages.map(file => 
-					this.app.vault.getResourcePath(file)
-				);
-				
-			} else {
-				console.log('Could not extract filename from current image path');
-				this.allImages = [this.imageSrc];
+			// Drops "#subpath"; "|300" size suffixes are already split off by the metadata cache
+			const linkpath = getLinkpath(link);
+			let file = this.app.metadataCache.getFirstLinkpathDest(linkpath, note.path);
+			if (!file && linkpath.includes('%')) {
+				try {
+					file = this.app.metadataCache.getFirstLinkpathDest(decodeURIComponent(linkpath), note.path);
+				} catch (error) {
+					// Not valid percent-encoding, so it really is unresolved
+				}
+			}
+			
+			if (file && isImageFile(file)) {
+				found.push({ offset, src: this.app.vault.getResourcePath(file) });
+			}
+		});
+		
+		// The metadata cache doesn't reliably record URL embeds, so read those from the note itself
+		try {
+			const text = await this.app.vault.cachedRead(note);
+			const codeSections = (cache?.sections || []).filter(section => section.type === 'code');
+			const cachedOffsets = new Set(embeds.map(embed => embed.position.start.offset));
+			const pattern = /!\[[^\]]*\]\(\s*<?(https?:\/\/[^\s>)]+)>?(?:\s+["'(][^)]*)?\)/gi;
+			let match: RegExpExecArray | null;
+			while ((match = pattern.exec(text)) !== null) {
+				const offset = match.index;
+				const inCode = codeSections.some(section => offset >= section.position.start.offset && offset < section.position.end.offset);
+				if (!inCode && !cachedOffsets.has(offset)) {
+					found.push({ offset, src: match[1] });
+				}
 			}
 		} catch (error) {
-			console.error('Error in findImagesByFolder:', error);
-			this.allImages = [this.imageSrc];
+			console.error('Failed to read note for external images:', error);
 		}
+		
+		// Document order
+		return found.sort((a, b) => a.offset - b.offset).map(entry => entry.src);
 	}
 
 	private async findImagesByDOM() {
@@ -363,9 +1103,9 @@ class ImageViewerModal extends Modal {
 		
 		// Previous DOM-based logic as fallback
 		const strategies = [
-			{ name: 'Active markdown preview', fn: () => document.querySelector('.workspace-leaf.mod-active .markdown-preview-view') },
-			{ name: 'Active source view', fn: () => document.querySelector('.workspace-leaf.mod-active .markdown-source-view') },
-			{ name: 'Any markdown preview', fn: () => document.querySelector('.markdown-preview-view') },
+			{ name: 'Active markdown preview', fn: () => this.sourceDocument.querySelector('.workspace-leaf.mod-active .markdown-preview-view') },
+			{ name: 'Active source view', fn: () => this.sourceDocument.querySelector('.workspace-leaf.mod-active .markdown-source-view') },
+			{ name: 'Any markdown preview', fn: () => this.sourceDocument.querySelector('.markdown-preview-view') },
 		];
 		
 		let images: NodeListOf<HTMLImageElement> | null = null;
@@ -418,7 +1158,10 @@ class ImageViewerModal extends Modal {
 		this.createModalContent();
 		this.createResizeHandles();
 		this.setupEventListeners();
-		
+
+		// Restore annotations saved for this image
+		this.loadAnnotations();
+
 		// Add click to close on modal background (outside image and controls)
 		contentEl.addEventListener('click', (e) => {
 			// Close only if clicking on the modal background, not on image or controls
@@ -429,6 +1172,19 @@ class ImageViewerModal extends Modal {
 	}
 
 	onClose() {
+		// Keep a label that is still being typed
+		this.closeTextEditor(true);
+		this.filmstripObserver?.disconnect();
+		this.closeGrid();
+		this.clearSlideshowTimers();
+		this.disposeAnimation();
+		this.imageCache.clear();
+		this.resourceFiles = null;
+		if (this.zoomEditScope) {
+			this.app.keymap.popScope(this.zoomEditScope);
+			this.zoomEditScope = null;
+		}
+
 		const { contentEl } = this;
 		contentEl.empty();
 		
@@ -446,9 +1202,17 @@ class ImageViewerModal extends Modal {
 		this.imageElement = this.containerElement.createEl('img', {
 			cls: 'image-viewer-image'
 		});
-		this.imageElement.src = this.imageSrc;
 		this.imageElement.alt = 'Viewing image';
 		
+		// Shows decoded frames in place of the image while an animation is controlled here
+		this.animationCanvas = this.containerElement.createEl('canvas', {
+			cls: 'image-viewer-animation-frame'
+		});
+		
+		// Shown while an image is on its way, or when it can't be loaded
+		this.containerElement.createDiv('image-viewer-loading');
+		this.loadErrorElement = this.containerElement.createDiv('image-viewer-load-error');
+		
 		// Create canvas overlay for drawing
 		this.canvasElement = this.containerElement.createEl('canvas', {
 			cls: 'image-viewer-canvas'
@@ -460,12 +1224,28 @@ class ImageViewerModal extends Modal {
 			this.originalImageWidth = this.imageElement.naturalWidth;
 			this.originalImageHeight = this.imageElement.naturalHeight;
 			
+			// Redaction patches were cut from the previous pixels
+			this.redactionCache.clear();
+			
 			// Set initial modal size to match image
 			this.setInitialModalSize();
 			
 			// Sync canvas size with image
 			this.syncCanvasWithImage();
+			
+			this.setLoadingState('loaded');
+			this.setupAnimation();
 		});
+		
+		this.imageElement.addEventListener('error', () => {
+			console.error('Failed to load image:', this.imageSrc);
+			this.setLoadingState('error');
+		});
+		
+		// Attach the source only once the handlers are in place
+		this.setLoadingState('loading');
+		this.imageElement.src = this.imageSrc;
+		this.preloadAdjacentImages();
 
 		// Create controls container
 		const controlsContainer = contentEl.createDiv('image-viewer-controls-container');
@@ -480,7 +1260,8 @@ class ImageViewerModal extends Modal {
 		});
 		drawButton.setAttribute('data-shortcut', 'W');
 		drawButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 19l7-7 3 3-7 7-3-3z"></path><path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z"></path><path d="M2 2l7.586 7.586"></path><circle cx="11" cy="11" r="2"></circle></svg>`;
-		drawButton.addEventListener('click', () => this.toggleDrawMode());
+		drawButton.setAttribute('data-mode', 'draw');
+		drawButton.addEventListener('click', () => this.toggleMode('draw'));
 		
 		const textButton = drawingControls.createEl('button', {
 			cls: 'image-viewer-control-btn text-btn',
@@ -488,7 +1269,8 @@ class ImageViewerModal extends Modal {
 		});
 		textButton.setAttribute('data-shortcut', 'T');
 		textButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="4,7 4,4 20,4 20,7"></polyline><line x1="9" y1="20" x2="15" y2="20"></line><line x1="12" y1="4" x2="12" y2="20"></line></svg>`;
-		textButton.addEventListener('click', () => this.toggleTextMode());
+		textButton.setAttribute('data-mode', 'text');
+		textButton.addEventListener('click', () => this.toggleMode('text'));
 		
 		const eraseButton = drawingControls.createEl('button', {
 			cls: 'image-viewer-control-btn erase-btn',
@@ -496,8 +1278,125 @@ class ImageViewerModal extends Modal {
 		});
 		eraseButton.setAttribute('data-shortcut', 'E');
 		eraseButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M20 20H7L3 16L7 12L17 2L22 7L12 17Z"></path><path d="M13 5L17 9"></path></svg>`;
-		eraseButton.addEventListener('click', () => this.toggleEraseMode());
-		
+		eraseButton.setAttribute('data-mode', 'erase');
+		eraseButton.addEventListener('click', () => this.toggleMode('erase'));
+
+		const redactButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn redact-btn',
+			title: 'Redact (X)'
+		});
+		redactButton.setAttribute('data-shortcut', 'X');
+		redactButton.setAttribute('data-mode', 'redact');
+		redactButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="3" y="5" width="18" height="14" rx="2"></rect><path d="M7 9h4v4H7zM13 11h4v4h-4z" fill="currentColor"></path></svg>`;
+		redactButton.addEventListener('click', () => this.toggleMode('redact'));
+
+		const selectButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn select-btn',
+			title: 'Select Mode (V)'
+		});
+		selectButton.setAttribute('data-shortcut', 'V');
+		selectButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 3l7.07 16.97 2.51-7.39 7.39-2.51L3 3z"></path><path d="M13 13l6 6"></path></svg>`;
+		selectButton.setAttribute('data-mode', 'select');
+		selectButton.addEventListener('click', () => this.toggleMode('select'));
+
+		// Shape tools
+		const arrowButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn arrow-btn',
+			title: 'Arrow (A, Shift snaps to 45°)'
+		});
+		arrowButton.setAttribute('data-shortcut', 'A');
+		arrowButton.setAttribute('data-mode', 'arrow');
+		arrowButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="5" y1="19" x2="19" y2="5"></line><polyline points="9,5 19,5 19,15"></polyline></svg>`;
+		arrowButton.addEventListener('click', () => this.toggleMode('arrow'));
+
+		const lineButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn line-btn',
+			title: 'Line (L, Shift snaps to 45°)'
+		});
+		lineButton.setAttribute('data-shortcut', 'L');
+		lineButton.setAttribute('data-mode', 'line');
+		lineButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="5" y1="19" x2="19" y2="5"></line></svg>`;
+		lineButton.addEventListener('click', () => this.toggleMode('line'));
+
+		const rectangleButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn rectangle-btn',
+			title: 'Rectangle (B, Shift for square)'
+		});
+		rectangleButton.setAttribute('data-shortcut', 'B');
+		rectangleButton.setAttribute('data-mode', 'rectangle');
+		rectangleButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="3" y="5" width="18" height="14" rx="1"></rect></svg>`;
+		rectangleButton.addEventListener('click', () => this.toggleMode('rectangle'));
+
+		const ellipseButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn ellipse-btn',
+			title: 'Ellipse (O, Shift for circle)'
+		});
+		ellipseButton.setAttribute('data-shortcut', 'O');
+		ellipseButton.setAttribute('data-mode', 'ellipse');
+		ellipseButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><ellipse cx="12" cy="12" rx="9" ry="7"></ellipse></svg>`;
+		ellipseButton.addEventListener('click', () => this.toggleMode('ellipse'));
+
+		const highlightButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn highlight-btn',
+			title: 'Highlighter (H, Shift for straight line)'
+		});
+		highlightButton.setAttribute('data-shortcut', 'H');
+		highlightButton.setAttribute('data-mode', 'highlight');
+		highlightButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M9 11l-6 6v3h9l3-3"></path><path d="M22 12l-4.6 4.6a2 2 0 0 1-2.8 0l-5.2-5.2a2 2 0 0 1 0-2.8L14 4"></path></svg>`;
+		highlightButton.addEventListener('click', () => this.toggleMode('highlight'));
+
+		const markerButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn marker-btn',
+			title: 'Step marker (N)'
+		});
+		markerButton.setAttribute('data-shortcut', 'N');
+		markerButton.setAttribute('data-mode', 'marker');
+		markerButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="12" cy="12" r="9"></circle><path d="M10 9l2-1.5V17"></path></svg>`;
+		markerButton.addEventListener('click', () => this.toggleMode('marker'));
+
+		const inspectButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn inspect-btn',
+			title: 'Inspect pixels (I)'
+		});
+		inspectButton.setAttribute('data-shortcut', 'I');
+		inspectButton.setAttribute('data-mode', 'inspect');
+		inspectButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M2 22l1-1h3l9-9"></path><path d="M3 21v-3l9-9"></path><path d="M15 6l3.4-3.4a2.1 2.1 0 1 1 3 3L18 9l.4.4a2.1 2.1 0 1 1-3 3l-3.8-3.8a2.1 2.1 0 1 1 3-3l.4.4z"></path></svg>`;
+		inspectButton.addEventListener('click', () => this.toggleMode('inspect'));
+
+		const measureButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn measure-btn',
+			title: 'Measure (M)'
+		});
+		measureButton.setAttribute('data-shortcut', 'M');
+		measureButton.setAttribute('data-mode', 'measure');
+		measureButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M21.3 8.7L8.7 21.3a1 1 0 0 1-1.4 0l-4.6-4.6a1 1 0 0 1 0-1.4L15.3 2.7a1 1 0 0 1 1.4 0l4.6 4.6a1 1 0 0 1 0 1.4z"></path><path d="M7.5 10.5l2 2"></path><path d="M10.5 7.5l2 2"></path><path d="M13.5 4.5l2 2"></path><path d="M4.5 13.5l2 2"></path></svg>`;
+		measureButton.addEventListener('click', () => this.toggleMode('measure'));
+
+		const cropButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn crop-btn',
+			title: 'Crop (C)'
+		});
+		cropButton.setAttribute('data-shortcut', 'C');
+		cropButton.setAttribute('data-mode', 'crop');
+		cropButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M6.13 1L6 16a2 2 0 0 0 2 2h15"></path><path d="M1 6.13L16 6a2 2 0 0 1 2 2v15"></path></svg>`;
+		cropButton.addEventListener('click', () => this.toggleMode('crop'));
+
+		const undoButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn undo-btn',
+			title: 'Undo (Cmd+Z)'
+		});
+		undoButton.setAttribute('data-shortcut', '⌘Z');
+		undoButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 7v6h6"></path><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"></path></svg>`;
+		undoButton.addEventListener('click', () => this.undo());
+
+		const redoButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn redo-btn',
+			title: 'Redo (Cmd+Shift+Z)'
+		});
+		redoButton.setAttribute('data-shortcut', '⇧⌘Z');
+		redoButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M21 7v6h-6"></path><path d="M3 17a9 9 0 0 1 9-9 9 9 0 0 1 6 2.3l3 2.7"></path></svg>`;
+		redoButton.addEventListener('click', () => this.redo());
+
 		const clearButton = drawingControls.createEl('button', {
 			cls: 'image-viewer-control-btn clear-btn',
 			title: 'Clear All Drawing (D)'
@@ -505,7 +1404,15 @@ class ImageViewerModal extends Modal {
 		clearButton.setAttribute('data-shortcut', 'D');
 		clearButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="3,6 5,6 21,6"></polyline><path d="M19,6v14a2,2 0 0,1 -2,2H7a2,2 0 0,1 -2,-2V6m3,0V4a2,2 0 0,1 2,-2h4a2,2 0 0,1 2,2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>`;
 		clearButton.addEventListener('click', () => this.clearDrawing());
-		
+
+		const saveButton = drawingControls.createEl('button', {
+			cls: 'image-viewer-control-btn save-btn',
+			title: 'Save Annotated Image (Cmd+S)'
+		});
+		saveButton.setAttribute('data-shortcut', '⌘S');
+		saveButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path><polyline points="17,21 17,13 7,13 7,21"></polyline><polyline points="7,3 7,8 15,8"></polyline></svg>`;
+		saveButton.addEventListener('click', () => this.openSaveDialog());
+
 		// Create main controls (bottom row)
 		const controls = controlsContainer.createDiv('image-viewer-controls main-controls');
 		
@@ -513,11 +1420,11 @@ class ImageViewerModal extends Modal {
 		if (this.settings.showCopyButton) {
 			const copyButton = controls.createEl('button', {
 				cls: 'image-viewer-control-btn copy-btn',
-				title: 'Copy Image (Cmd+C)'
+				title: 'Copy Image (Cmd+C, Shift-click for the visible area only)'
 			});
 			copyButton.setAttribute('data-shortcut', '⌘C');
 			copyButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"></path><rect x="8" y="2" width="8" height="4" rx="1" ry="1"></rect></svg>`;
-			copyButton.addEventListener('click', () => this.copyImage());
+			copyButton.addEventListener('click', (e) => this.copyImage(e.shiftKey));
 		}
 		
 		// Zoom buttons
@@ -537,10 +1444,20 @@ class ImageViewerModal extends Modal {
 		zoomOutBtn.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="11" cy="11" r="8"></circle><path d="m21 21-4.35-4.35M8 11h6"></path></svg>`;
 		zoomOutBtn.addEventListener('click', () => this.zoomOut());
 		
+		// Zoom readout; click for presets or to type an exact level
+		this.zoomReadout = controls.createEl('button', {
+			cls: 'image-viewer-control-btn zoom-readout',
+			title: 'Zoom level (click for presets)'
+		});
+		this.zoomReadout.setText('100%');
+		this.zoomReadout.addEventListener('click', (e) => {
+			if (!this.zoomEditScope) this.openZoomMenu(e);
+		});
+		
 		// Rotation buttons
 		const rotateLeftBtn = controls.createEl('button', {
 			cls: 'image-viewer-control-btn rotate-left-btn',
-			title: 'Rotate Left (← or Q)'
+			title: 'Rotate Left (←)'
 		});
 		rotateLeftBtn.setAttribute('data-shortcut', '←');
 		rotateLeftBtn.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M2.5 2v6h6M2.66 15.57a10 10 0 1 0 .57-8.38"></path></svg>`;
@@ -548,12 +1465,37 @@ class ImageViewerModal extends Modal {
 		
 		const rotateRightBtn = controls.createEl('button', {
 			cls: 'image-viewer-control-btn rotate-right-btn',
-			title: 'Rotate Right (→ or E)'
+			title: 'Rotate Right (→)'
 		});
 		rotateRightBtn.setAttribute('data-shortcut', '→');
 		rotateRightBtn.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M21.5 2v6h-6M21.34 15.57a10 10 0 1 1-.57-8.38"></path></svg>`;
 		rotateRightBtn.addEventListener('click', () => this.rotateRight());
 		
+		// Flip buttons
+		const flipHorizontalBtn = controls.createEl('button', {
+			cls: 'image-viewer-control-btn flip-horizontal-btn',
+			title: 'Flip Horizontally (Shift+H)'
+		});
+		flipHorizontalBtn.setAttribute('data-shortcut', '⇧H');
+		flipHorizontalBtn.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="12" y1="2" x2="12" y2="22" stroke-dasharray="2 2"></line><path d="M9 6L3 18h6z"></path><path d="M15 6l6 12h-6z"></path></svg>`;
+		flipHorizontalBtn.addEventListener('click', () => this.flipOnScreen('horizontal'));
+		
+		const flipVerticalBtn = controls.createEl('button', {
+			cls: 'image-viewer-control-btn flip-vertical-btn',
+			title: 'Flip Vertically (Shift+V)'
+		});
+		flipVerticalBtn.setAttribute('data-shortcut', '⇧V');
+		flipVerticalBtn.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="2" y1="12" x2="22" y2="12" stroke-dasharray="2 2"></line><path d="M6 9L18 3v6z"></path><path d="M6 15l12 6v-6z"></path></svg>`;
+		flipVerticalBtn.addEventListener('click', () => this.flipOnScreen('vertical'));
+		
+		// Write the current orientation into the file
+		const applyOrientationBtn = controls.createEl('button', {
+			cls: 'image-viewer-control-btn apply-orientation-btn',
+			title: 'Apply Rotation and Flip to File'
+		});
+		applyOrientationBtn.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path><polyline points="9 13 11 15 15 11"></polyline></svg>`;
+		applyOrientationBtn.addEventListener('click', () => this.applyOrientationToFile());
+		
 		// Reset button
 		const resetButton = controls.createEl('button', {
 			cls: 'image-viewer-control-btn reset-btn',
@@ -583,6 +1525,51 @@ class ImageViewerModal extends Modal {
 		nextButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 5v14M19 12l-7 7-7-7"></path></svg>`;
 		nextButton.addEventListener('click', () => this.nextImage());
 		
+		// Grid overview button
+		const gridButton = controls.createEl('button', {
+			cls: 'image-viewer-control-btn grid-btn',
+			title: 'Grid Overview (G)'
+		});
+		gridButton.setAttribute('data-shortcut', 'G');
+		gridButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="3" y="3" width="7" height="7"></rect><rect x="14" y="3" width="7" height="7"></rect><rect x="3" y="14" width="7" height="7"></rect><rect x="14" y="14" width="7" height="7"></rect></svg>`;
+		gridButton.addEventListener('click', () => this.toggleGrid());
+		
+		// Slideshow button
+		const slideshowButton = controls.createEl('button', {
+			cls: 'image-viewer-control-btn slideshow-btn',
+			title: 'Slideshow (Space)'
+		});
+		slideshowButton.setAttribute('data-shortcut', 'Space');
+		slideshowButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="2" y="4" width="20" height="14" rx="2"></rect><path d="M10 8.5v5l4-2.5z" fill="currentColor"></path><path d="M8 21h8"></path></svg>`;
+		slideshowButton.addEventListener('click', () => this.startSlideshow());
+		
+		// Backlinks button
+		const backlinksButton = controls.createEl('button', {
+			cls: 'image-viewer-control-btn backlinks-btn',
+			title: 'Where Is This Used (U)'
+		});
+		backlinksButton.setAttribute('data-shortcut', 'U');
+		backlinksButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path></svg>`;
+		backlinksButton.addEventListener('click', () => this.toggleBacklinksPanel());
+		
+		// Adjustments button
+		const adjustmentsButton = controls.createEl('button', {
+			cls: 'image-viewer-control-btn adjustments-btn',
+			title: 'Adjustments (J)'
+		});
+		adjustmentsButton.setAttribute('data-shortcut', 'J');
+		adjustmentsButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="12" cy="12" r="9"></circle><path d="M12 3v18"></path><path d="M12 3a9 9 0 0 1 0 18z" fill="currentColor"></path></svg>`;
+		adjustmentsButton.addEventListener('click', () => this.toggleAdjustmentsPanel());
+		
+		// Compare button
+		const compareButton = controls.createEl('button', {
+			cls: 'image-viewer-control-btn compare-btn',
+			title: 'Compare With Another Image (K)'
+		});
+		compareButton.setAttribute('data-shortcut', 'K');
+		compareButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="2" y="4" width="20" height="16" rx="2"></rect><line x1="12" y1="2" x2="12" y2="22"></line><path d="M15 9l3 3-3 3"></path><path d="M9 9l-3 3 3 3"></path></svg>`;
+		compareButton.addEventListener('click', () => this.toggleCompare());
+		
 		// Update button states - no timeout needed since findAllImages is already complete
 		this.updateNavigationButtons(prevButton, nextButton);
 		
@@ -597,6 +1584,14 @@ class ImageViewerModal extends Modal {
 		
 		// Create drawing settings panel
 		this.createDrawingSettings();
+		this.createAdjustmentsPanel();
+		this.createCropPanel();
+		this.createMeasurePanel();
+		this.createFilmstrip();
+		this.createSlideshowBar();
+		this.createMinimap();
+		this.createCompareView();
+		this.createAnimationBar();
 	}
 
 
@@ -716,15 +1711,18 @@ class ImageViewerModal extends Modal {
 	}
 
 	private setupEventListeners() {
-		// Mouse wheel zoom
-		this.containerElement.addEventListener('wheel', (e) => {
-			e.preventDefault();
-			if (e.deltaY < 0) {
-				this.zoomIn();
-			} else {
-				this.zoomOut();
+		// Mouse wheel and trackpad zoom, anchored on the cursor
+		this.containerElement.addEventListener('wheel', (e) => this.handleWheel(e), { passive: false });
+		// The side by side pane covers the right half, so it pans and zooms the main image too
+		this.comparePane.addEventListener('wheel', (e) => this.handleWheel(e), { passive: false });
+		this.comparePane.addEventListener('mousedown', (e) => {
+			if (e.button === 0 && this.currentMode === 'view') {
+				this.startDrag(e);
 			}
 		});
+		
+		// Pinch, pan, double-tap and swipe on touch screens
+		this.setupTouchGestures();
 
 		// Image drag functionality
 		this.imageElement.addEventListener('mousedown', (e) => {
@@ -741,8 +1739,30 @@ class ImageViewerModal extends Modal {
 			this.scope.register(['Mod'], 'c', () => {
 				this.copyImage();
 			});
-			
+
+			this.scope.register(['Mod', 'Shift'], 'c', () => {
+				this.copyImage(true);
+			});
+
+			this.scope.register(['Mod'], 's', () => {
+				this.openSaveDialog();
+				return false;
+			});
+
 			this.scope.register([], 'Escape', () => {
+				// Back out of the grid, comparison or slideshow before closing the viewer
+				if (this.gridElement) {
+					this.closeGrid();
+					return false;
+				}
+				if (this.compareMode) {
+					this.closeCompare();
+					return false;
+				}
+				if (this.slideshowActive) {
+					this.stopSlideshow();
+					return false;
+				}
 				this.close();
 			});
 			
@@ -773,6 +1793,15 @@ class ImageViewerModal extends Modal {
 				this.rotateRight();
 			});
 			
+			// Flip shortcuts: Shift+H and Shift+V
+			this.scope.register(['Shift'], 'h', () => {
+				this.flipOnScreen('horizontal');
+			});
+			
+			this.scope.register(['Shift'], 'v', () => {
+				this.flipOnScreen('vertical');
+			});
+			
 			this.scope.register([], 'ArrowUp', () => {
 				this.previousImage();
 			});
@@ -794,30 +1823,153 @@ class ImageViewerModal extends Modal {
 			
 			// Drawing shortcuts
 			this.scope.register([], 'w', () => {
-				this.toggleDrawMode();
+				this.toggleMode('draw');
 			});
 			
 			this.scope.register([], 't', () => {
-				this.toggleTextMode();
+				this.toggleMode('text');
 			});
 			
 			this.scope.register([], 'e', () => {
-				this.toggleEraseMode();
+				this.toggleMode('erase');
 			});
 			
 			this.scope.register([], 'd', () => {
 				this.clearDrawing();
 			});
+
+			this.scope.register([], 'v', () => {
+				this.toggleMode('select');
+			});
+
+			this.scope.register([], 'a', () => {
+				this.toggleMode('arrow');
+			});
+
+			this.scope.register([], 'l', () => {
+				this.toggleMode('line');
+			});
+
+			this.scope.register([], 'b', () => {
+				this.toggleMode('rectangle');
+			});
+
+			this.scope.register([], 'o', () => {
+				this.toggleMode('ellipse');
+			});
+
+			this.scope.register([], 'h', () => {
+				this.toggleMode('highlight');
+			});
+
+			this.scope.register([], 'c', () => {
+				this.toggleMode('crop');
+			});
+
+			this.scope.register([], 'x', () => {
+				this.toggleMode('redact');
+			});
+
+			this.scope.register([], 'i', () => {
+				this.toggleMode('inspect');
+			});
+
+			this.scope.register([], 'm', () => {
+				this.toggleMode('measure');
+			});
+
+			this.scope.register([], 'n', () => {
+				this.toggleMode('marker');
+			});
+
+			this.scope.register([], 'f', () => {
+				this.toggleFilmstrip();
+			});
+
+			this.scope.register([], 'g', () => {
+				this.toggleGrid();
+			});
+
+			this.scope.register([], 'k', () => {
+				this.toggleCompare();
+			});
+
+			// Animation playback
+			this.scope.register([], 'p', () => {
+				this.toggleAnimationPlayback();
+			});
+
+			this.scope.register([], ',', () => {
+				this.stepAnimation(-1);
+			});
+
+			this.scope.register([], '.', () => {
+				this.stepAnimation(1);
+			});
+
+			this.scope.register([], 'j', () => {
+				this.toggleAdjustmentsPanel();
+			});
+
+			this.scope.register(['Shift'], 'i', () => {
+				this.toggleSmartInvert();
+			});
+
+			this.scope.register([], 'u', () => {
+				this.toggleBacklinksPanel();
+			});
+
+			// Zoom presets
+			this.scope.register([], '0', () => this.applyZoomPreset('fit'));
+			this.scope.register([], '1', () => this.applyZoomPreset('actual'));
+			this.scope.register([], '2', () => this.applyZoomPreset('double'));
+			this.scope.register([], '3', () => this.applyZoomPreset('fit-width'));
+			this.scope.register([], '4', () => this.applyZoomPreset('fit-height'));
+
+			this.scope.register([], ' ', () => {
+				if (this.slideshowActive) {
+					this.toggleSlideshowPause();
+				} else {
+					this.startSlideshow();
+				}
+				return false;
+			});
+
+			this.scope.register([], 'Enter', () => {
+				if (this.currentMode === 'crop') {
+					this.applyCrop();
+					return false;
+				}
+			});
+
+			// Annotation history
+			this.scope.register(['Mod'], 'z', () => {
+				this.undo();
+				return false;
+			});
+
+			this.scope.register(['Mod', 'Shift'], 'z', () => {
+				this.redo();
+				return false;
+			});
+
+			this.scope.register([], 'Delete', () => {
+				this.deleteSelectedAnnotation();
+			});
+
+			this.scope.register([], 'Backspace', () => {
+				this.deleteSelectedAnnotation();
+			});
 		}
 	}
 
 	private zoomIn() {
-		this.currentScale += this.settings.zoomIncrement;
+		this.currentScale = Math.min(MAX_ZOOM_SCALE, this.currentScale + this.settings.zoomIncrement);
 		this.updateImageScale();
 	}
 
 	private zoomOut() {
-		this.currentScale = Math.max(0.1, this.currentScale - this.settings.zoomIncrement);
+		this.currentScale = Math.max(MIN_ZOOM_SCALE, this.currentScale - this.settings.zoomIncrement);
 		this.updateImageScale();
 	}
 
@@ -831,8 +1983,62 @@ class ImageViewerModal extends Modal {
 		this.updateImageTransform();
 	}
 
-	private resetView() {
+	private flipOnScreen(axis: 'horizontal' | 'vertical') {
+		// Flips are kept in image space, so a quarter turn swaps which one a screen flip toggles
+		if ((axis === 'horizontal') !== this.isQuarterTurned()) {
+			this.flipHorizontal = !this.flipHorizontal;
+		} else {
+			this.flipVertical = !this.flipVertical;
+		}
+		this.updateImageTransform();
+	}
+
+	private hasOrientationChange(): boolean {
+		return this.getNormalizedRotation() !== 0 || this.flipHorizontal || this.flipVertical;
+	}
+
+	private applyOrientationToFile() {
+		if (!this.hasOrientationChange()) {
+			this.showNotice('Rotate or flip the image first');
+			return;
+		}
+		
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) {
+			this.showNotice('Only images stored in the vault can be changed');
+			return;
+		}
+		
+		const encodingType = this.getEncodingType(imageFile.extension);
+		const details = [
+			this.annotations.length > 0 ? 'Annotations are flattened into the image.' : '',
+			encodingType === 'image/jpeg' ? 'JPEG files are re-encoded, which can lose a little quality.' : ''
+		].filter(Boolean).join(' ');
+		
+		const oriented = this.renderTransformedComposite();
+		new SaveImageModal(this.app, {
+			title: 'Apply rotation and flip',
+			description: `Write "${imageFile.name}" as it is shown, ${oriented.width} × ${oriented.height} pixels. ${details}`.trim(),
+			copySuffix: '-rotated',
+			canOverwrite: encodingType !== null
+		}, async (mode) => {
+			const saved = await this.writeImageToVault(imageFile, oriented, mode, '-rotated');
+			if (!saved || mode === 'copy') return;
+			
+			// The file is upright now, so show it untransformed
+			this.resetOrientation();
+			this.updateImageTransform();
+		}).open();
+	}
+
+	private resetOrientation() {
 		this.currentRotation = 0;
+		this.flipHorizontal = false;
+		this.flipVertical = false;
+	}
+
+	private resetView() {
+		this.resetOrientation();
 		this.centerImageInViewport();
 		this.setInitialModalSize(); // Use proper scaling logic instead of hardcoded scale = 1
 	}
@@ -851,452 +2057,4075 @@ class ImageViewerModal extends Modal {
 		this.loadNewImage(this.allImages[this.currentImageIndex]);
 	}
 
-	private loadNewImage(newSrc: string) {
-		this.imageSrc = newSrc;
-		this.imageElement.src = newSrc;
-		
-		// Reset transform and wait for image to load
-		this.currentScale = 1;
-		this.currentRotation = 0;
-		this.centerImageInViewport();
-		this.updateImageTransform();
-		
-		// Clear canvas when switching images
-		this.clearDrawing();
+	// Backlinks-related methods
+	private toggleBacklinksPanel() {
+		if (this.backlinksPanel) {
+			this.backlinksPanel.remove();
+			this.backlinksPanel = null;
+			return;
+		}
 		
-		// Update original dimensions when new image loads
-		this.imageElement.addEventListener('load', () => {
-			this.originalImageWidth = this.imageElement.naturalWidth;
-			this.originalImageHeight = this.imageElement.naturalHeight;
-			this.setInitialModalSize(); // Use the scaling logic for new images too
-		}, { once: true });
+		this.backlinksPanel = this.contentEl.createDiv('image-viewer-backlinks-panel');
+		this.refreshBacklinks();
 	}
 
-	private startDrag(e: MouseEvent) {
-		e.preventDefault();
-		e.stopPropagation();
-		
-		this.isDragging = true;
-		this.dragData = {
-			startX: e.clientX,
-			startY: e.clientY,
-			startOffsetX: this.imageOffsetX,
-			startOffsetY: this.imageOffsetY
-		};
-
-		// Use the source document for event listeners to handle popout windows correctly
-		this.sourceDocument.addEventListener('mousemove', this.handleDrag.bind(this));
-		this.sourceDocument.addEventListener('mouseup', this.stopDrag.bind(this));
+	private async refreshBacklinks() {
+		const panel = this.backlinksPanel;
+		if (!panel) return;
 		
-		this.imageElement.style.cursor = 'grabbing';
-	}
-
-	private handleDrag(e: MouseEvent) {
-		if (!this.isDragging || !this.dragData) return;
+		panel.empty();
+		const header = panel.createDiv('backlinks-header');
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) {
+			header.setText('Only images stored in the vault have backlinks');
+			return;
+		}
+		header.setText('Finding notes…');
 		
-		const deltaX = e.clientX - this.dragData.startX;
-		const deltaY = e.clientY - this.dragData.startY;
+		const requestedSrc = this.imageSrc;
+		const backlinks = await this.findBacklinks(imageFile);
+		// The user may have moved on while notes were being read
+		if (this.imageSrc !== requestedSrc || this.backlinksPanel !== panel) return;
 		
-		this.imageOffsetX = this.dragData.startOffsetX + deltaX;
-		this.imageOffsetY = this.dragData.startOffsetY + deltaY;
+		const noteCount = new Set(backlinks.map(backlink => backlink.note.path)).size;
+		header.setText(noteCount === 0
+			? `${imageFile.name} is not used in any note`
+			: `${imageFile.name} is used in ${noteCount} note${noteCount === 1 ? '' : 's'}`);
 		
-		this.updateImageTransform();
+		const list = panel.createDiv('backlinks-list');
+		backlinks.forEach(backlink => {
+			const item = list.createDiv('backlinks-item');
+			item.createDiv({ cls: 'backlinks-note', text: backlink.note.basename });
+			if (backlink.note.parent && backlink.note.parent.path !== '/') {
+				item.createDiv({ cls: 'backlinks-path', text: backlink.note.parent.path });
+			}
+			item.createDiv({ cls: 'backlinks-snippet', text: backlink.snippet });
+			item.addEventListener('click', () => this.openBacklink(backlink.note, backlink.line));
+		});
 	}
 
-	private stopDrag() {
-		this.isDragging = false;
+	private async findBacklinks(imageFile: TFile): Promise<{ note: TFile; line: number; snippet: string }[]> {
+		const backlinks: { note: TFile; line: number; snippet: string }[] = [];
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+		const notePaths = Object.keys(resolvedLinks)
+			.filter(path => resolvedLinks[path][imageFile.path])
+			.sort((a, b) => a.localeCompare(b));
+		
+		for (const notePath of notePaths) {
+			const note = this.app.vault.getAbstractFileByPath(notePath);
+			if (!(note instanceof TFile)) continue;
+			
+			const cache = this.app.metadataCache.getFileCache(note);
+			const references = [...(cache?.embeds || []), ...(cache?.links || [])]
+				.filter(reference => this.app.metadataCache.getFirstLinkpathDest(getLinkpath(reference.link), note.path) === imageFile)
+				.sort((a, b) => a.position.start.offset - b.position.start.offset);
+			if (references.length === 0) continue;
+			
+			try {
+				const lines = (await this.app.vault.cachedRead(note)).split('\n');
+				references.forEach(reference => {
+					const line = reference.position.start.line;
+					backlinks.push({ note, line, snippet: this.getBacklinkSnippet(lines, line) });
+				});
+			} catch (error) {
+				console.error('Failed to read backlink note:', error);
+			}
+		}
+		
+		return backlinks;
+	}
+
+	private getBacklinkSnippet(lines: string[], line: number): string {
+		// An embed often sits alone on its line, so borrow the nearest line with prose around it
+		const text = (index: number) => (lines[index] || '').trim();
+		let snippet = text(line);
+		if (/^!\[\[[^\]]*\]\]$|^!\[[^\]]*\]\([^)]*\)$/.test(snippet)) {
+			const context = [text(line - 1), text(line + 1)].filter(candidate => candidate && !candidate.startsWith('!['));
+			if (context.length > 0) snippet = `${context[0]} · ${snippet}`;
+		}
+		return snippet.length > BACKLINK_SNIPPET_LENGTH ? snippet.slice(0, BACKLINK_SNIPPET_LENGTH - 1) + '…' : snippet;
+	}
+
+	private async openBacklink(note: TFile, line: number) {
+		this.close();
+		try {
+			const leaf = this.app.workspace.getLeaf(false);
+			await leaf.openFile(note, { active: true, eState: { line } });
+		} catch (error) {
+			console.error('Failed to open note:', error);
+		}
+	}
+
+	// Slideshow-related methods
+	private createSlideshowBar() {
+		this.slideshowBar = this.contentEl.createDiv('image-viewer-slideshow-bar');
+		
+		this.slideshowPlayButton = this.slideshowBar.createEl('button', {
+			cls: 'image-viewer-control-btn',
+			title: 'Pause / resume (Space)'
+		});
+		this.slideshowPlayButton.addEventListener('click', () => this.toggleSlideshowPause());
+		
+		const intervalSelect = this.slideshowBar.createEl('select', { cls: 'dropdown' }) as HTMLSelectElement;
+		const intervals = Array.from(new Set([2, 3, 5, 10, 20, this.slideshowInterval])).sort((a, b) => a - b);
+		intervals.forEach(seconds => intervalSelect.createEl('option', { value: seconds.toString(), text: `${seconds}s` }));
+		intervalSelect.value = this.slideshowInterval.toString();
+		intervalSelect.addEventListener('change', () => {
+			this.slideshowInterval = Number(intervalSelect.value);
+			this.scheduleNextSlide();
+		});
+		
+		const loopLabel = this.slideshowBar.createEl('label', { cls: 'slideshow-option' });
+		const loopToggle = loopLabel.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+		loopLabel.appendText('Loop');
+		loopToggle.checked = this.slideshowLoop;
+		loopToggle.addEventListener('change', () => {
+			this.slideshowLoop = loopToggle.checked;
+		});
+		
+		const shuffleLabel = this.slideshowBar.createEl('label', { cls: 'slideshow-option' });
+		const shuffleToggle = shuffleLabel.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+		shuffleLabel.appendText('Shuffle');
+		shuffleToggle.checked = this.slideshowShuffle;
+		shuffleToggle.addEventListener('change', () => {
+			this.slideshowShuffle = shuffleToggle.checked;
+			this.resetSlideshowOrder();
+		});
+		
+		const stopButton = this.slideshowBar.createEl('button', {
+			cls: 'image-viewer-control-btn',
+			title: 'Stop slideshow (Esc)'
+		});
+		stopButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="1"></rect></svg>`;
+		stopButton.addEventListener('click', () => this.stopSlideshow());
+		
+		// Controls fade out during a slideshow and come back while the mouse moves
+		this.contentEl.addEventListener('mousemove', () => {
+			if (this.slideshowActive) this.showSlideshowChrome();
+		});
+		
+		this.updateSlideshowUI();
+	}
+
+	private startSlideshow() {
+		if (this.allImages.length <= 1) {
+			this.showNotice('There is only one image in this note');
+			return;
+		}
+		
+		this.closeTextEditor(true);
+		this.closeGrid();
+		this.closeCompare();
+		if (this.currentMode !== 'view') {
+			this.currentMode = 'view';
+			this.updateModeUI();
+			this.syncCanvasWithImage();
+		}
+		
+		this.slideshowActive = true;
+		this.slideshowPaused = false;
+		this.resetSlideshowOrder();
+		this.contentEl.addClass('slideshow-active');
+		this.showSlideshowChrome();
+		this.updateSlideshowUI();
+		this.scheduleNextSlide();
+	}
+
+	private stopSlideshow() {
+		if (!this.slideshowActive) return;
+		
+		this.slideshowActive = false;
+		this.clearSlideshowTimers();
+		this.contentEl.removeClass('slideshow-active');
+		this.contentEl.removeClass('slideshow-chrome-visible');
+		this.imageElement.removeClass('is-fading');
+		this.updateSlideshowUI();
+	}
+
+	private toggleSlideshowPause() {
+		if (!this.slideshowActive) return;
+		
+		this.slideshowPaused = !this.slideshowPaused;
+		this.showNotice(this.slideshowPaused ? 'Slideshow paused' : 'Slideshow resumed');
+		this.updateSlideshowUI();
+		this.scheduleNextSlide();
+	}
+
+	private updateSlideshowUI() {
+		if (!this.slideshowBar) return;
+		
+		const playing = this.slideshowActive && !this.slideshowPaused;
+		this.slideshowPlayButton.innerHTML = playing
+			? `<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="5" width="4" height="14"></rect><rect x="14" y="5" width="4" height="14"></rect></svg>`
+			: `<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><path d="M7 5v14l11-7z"></path></svg>`;
+	}
+
+	private showSlideshowChrome() {
+		this.contentEl.addClass('slideshow-chrome-visible');
+		if (this.slideshowChromeTimer !== null) {
+			window.clearTimeout(this.slideshowChromeTimer);
+		}
+		this.slideshowChromeTimer = window.setTimeout(() => {
+			this.slideshowChromeTimer = null;
+			this.contentEl.removeClass('slideshow-chrome-visible');
+		}, SLIDESHOW_CHROME_TIMEOUT);
+	}
+
+	private clearSlideshowTimers() {
+		if (this.slideshowTimer !== null) {
+			window.clearTimeout(this.slideshowTimer);
+			this.slideshowTimer = null;
+		}
+		if (this.slideshowChromeTimer !== null) {
+			window.clearTimeout(this.slideshowChromeTimer);
+			this.slideshowChromeTimer = null;
+		}
+	}
+
+	private scheduleNextSlide() {
+		if (this.slideshowTimer !== null) {
+			window.clearTimeout(this.slideshowTimer);
+			this.slideshowTimer = null;
+		}
+		if (!this.slideshowActive || this.slideshowPaused) return;
+		
+		this.slideshowTimer = window.setTimeout(() => {
+			this.slideshowTimer = null;
+			this.advanceSlideshow();
+		}, this.slideshowInterval * 1000);
+	}
+
+	private resetSlideshowOrder() {
+		// Upcoming images in play order, starting after the current one
+		const upcoming = this.allImages.map((_, index) => index).filter(index => index !== this.currentImageIndex);
+		if (this.slideshowShuffle) {
+			for (let i = upcoming.length - 1; i > 0; i--) {
+				const j = Math.floor(Math.random() * (i + 1));
+				[upcoming[i], upcoming[j]] = [upcoming[j], upcoming[i]];
+			}
+		} else {
+			// Continue in document order and wrap around
+			upcoming.sort((a, b) =>
+				((a - this.currentImageIndex + this.allImages.length) % this.allImages.length) -
+				((b - this.currentImageIndex + this.allImages.length) % this.allImages.length)
+			);
+		}
+		this.slideshowQueue = upcoming;
+	}
+
+	private advanceSlideshow() {
+		if (this.slideshowQueue.length === 0) {
+			if (!this.slideshowLoop) {
+				this.stopSlideshow();
+				this.showNotice('Slideshow finished');
+				return;
+			}
+			this.resetSlideshowOrder();
+		}
+		
+		const nextIndex = this.slideshowQueue.shift();
+		if (nextIndex === undefined) return;
+		
+		if (!this.settings.slideshowFade) {
+			this.goToImage(nextIndex);
+			this.scheduleNextSlide();
+			return;
+		}
+		
+		// Fade out, swap the image, then fade back in once it has loaded
+		this.imageElement.addClass('is-fading');
+		this.slideshowTimer = window.setTimeout(() => {
+			this.slideshowTimer = null;
+			if (!this.slideshowActive) return;
+			
+			this.imageElement.addEventListener('load', () => this.imageElement.removeClass('is-fading'), { once: true });
+			this.imageElement.addEventListener('error', () => this.imageElement.removeClass('is-fading'), { once: true });
+			this.goToImage(nextIndex);
+			this.scheduleNextSlide();
+		}, SLIDESHOW_FADE_DURATION);
+	}
+
+	// Grid-related methods
+	private toggleGrid() {
+		if (this.gridElement) {
+			this.closeGrid();
+		} else {
+			this.openGrid();
+		}
+	}
+
+	private openGrid() {
+		if (this.gridElement) return;
+		this.closeTextEditor(true);
+		
+		this.gridElement = this.contentEl.createDiv('image-viewer-grid');
+		this.gridSelection.clear();
+		this.gridLastClicked = null;
+		
+		const toolbar = this.gridElement.createDiv('grid-toolbar');
+		this.gridCountLabel = toolbar.createSpan('grid-count');
+		
+		const selectAllButton = toolbar.createEl('button', { text: 'Select all' });
+		selectAllButton.addEventListener('click', () => {
+			const allSelected = this.gridSelection.size === this.allImages.length;
+			this.gridSelection = new Set(allSelected ? [] : this.allImages.map((_, index) => index));
+			this.updateGridSelection();
+		});
+		
+		const copyButton = toolbar.createEl('button', { cls: 'grid-selection-action', text: 'Copy links' });
+		copyButton.addEventListener('click', () => this.copyGridSelection());
+		
+		const exportButton = toolbar.createEl('button', { cls: 'grid-selection-action', text: 'Export…' });
+		exportButton.addEventListener('click', () => this.exportGridSelection());
+		
+		const closeButton = toolbar.createEl('button', { text: 'Close grid (G)' });
+		closeButton.addEventListener('click', () => this.closeGrid());
+		
+		const tiles = this.gridElement.createDiv('grid-tiles');
+		this.gridObserver = new IntersectionObserver(entries => {
+			entries.forEach(entry => {
+				if (!entry.isIntersecting) return;
+				const thumbnail = entry.target as HTMLImageElement;
+				thumbnail.src = thumbnail.getAttribute('data-src') || '';
+				this.gridObserver?.unobserve(thumbnail);
+			});
+		}, { root: tiles, rootMargin: '300px 0px' });
+		
+		this.allImages.forEach((src, index) => {
+			const tile = tiles.createDiv('grid-tile');
+			tile.toggleClass('is-current', index === this.currentImageIndex);
+			
+			const thumbnail = tile.createEl('img');
+			thumbnail.setAttribute('data-src', src);
+			thumbnail.draggable = false;
+			this.gridObserver?.observe(thumbnail);
+			
+			const check = tile.createDiv({ cls: 'grid-tile-check', title: 'Select' });
+			check.addEventListener('click', (e) => {
+				e.stopPropagation();
+				this.toggleGridSelection(index, e.shiftKey);
+			});
+			
+			tile.createDiv({ cls: 'grid-tile-name', text: this.getImageDisplayName(src) });
+			
+			// Plain click opens the image; Mod/Shift-click selects like a file manager
+			tile.addEventListener('click', (e) => {
+				if (e.metaKey || e.ctrlKey || e.shiftKey) {
+					this.toggleGridSelection(index, e.shiftKey);
+					return;
+				}
+				this.closeGrid();
+				this.goToImage(index);
+			});
+		});
+		
+		this.updateGridSelection();
+		
+		// Start at the image that was open
+		const currentTile = tiles.children[this.currentImageIndex] as HTMLElement | undefined;
+		currentTile?.scrollIntoView({ block: 'center' });
+	}
+
+	private closeGrid() {
+		if (!this.gridElement) return;
+		
+		this.gridObserver?.disconnect();
+		this.gridObserver = null;
+		this.gridElement.remove();
+		this.gridElement = null;
+	}
+
+	private toggleGridSelection(index: number, extendRange: boolean) {
+		if (extendRange && this.gridLastClicked !== null) {
+			// Shift selects everything between the last clicked tile and this one
+			const from = Math.min(this.gridLastClicked, index);
+			const to = Math.max(this.gridLastClicked, index);
+			for (let i = from; i <= to; i++) {
+				this.gridSelection.add(i);
+			}
+		} else if (this.gridSelection.has(index)) {
+			this.gridSelection.delete(index);
+		} else {
+			this.gridSelection.add(index);
+		}
+		
+		this.gridLastClicked = index;
+		this.updateGridSelection();
+	}
+
+	private updateGridSelection() {
+		if (!this.gridElement) return;
+		
+		const tiles = this.gridElement.querySelectorAll('.grid-tile');
+		tiles.forEach((tile, index) => tile.classList.toggle('is-selected', this.gridSelection.has(index)));
+		
+		const count = this.gridSelection.size;
+		this.gridCountLabel.textContent = count > 0
+			? `${count} of ${this.allImages.length} selected`
+			: `${this.allImages.length} image${this.allImages.length === 1 ? '' : 's'}`;
+		this.gridElement.querySelectorAll('.grid-selection-action').forEach(button => {
+			(button as HTMLButtonElement).disabled = count === 0;
+		});
+	}
+
+	private getGridSelectionSources(): string[] {
+		return Array.from(this.gridSelection).sort((a, b) => a - b).map(index => this.allImages[index]);
+	}
+
+	private getImageDisplayName(src: string): string {
+		const file = this.getFileForSource(src);
+		if (file) return file.name;
+		
+		const lastSegment = src.split('?')[0].split('/').pop() || src;
+		try {
+			return decodeURIComponent(lastSegment);
+		} catch (error) {
+			return lastSegment;
+		}
+	}
+
+	private async copyGridSelection() {
+		// The clipboard holds a single image, so bulk copy hands over embeds that can be pasted into a note
+		const sourcePath = this.sourceFile?.path || '';
+		const lines = this.getGridSelectionSources().map(src => {
+			const file = this.getFileForSource(src);
+			return file
+				? `![[${this.app.metadataCache.fileToLinktext(file, sourcePath, false)}]]`
+				: `![](${src})`;
+		});
+		
+		try {
+			await navigator.clipboard.writeText(lines.join('\n'));
+			this.showNotice(`Copied ${lines.length} image link${lines.length === 1 ? '' : 's'}`);
+		} catch (error) {
+			console.error('Failed to copy image links:', error);
+			this.showNotice('Failed to copy image links');
+		}
+	}
+
+	private exportGridSelection() {
+		const sources = this.getGridSelectionSources();
+		if (sources.length === 0) return;
+		
+		const defaultFolder = `${this.sourceFile?.basename || 'Images'} export`;
+		new ExportImagesModal(this.app, defaultFolder, sources.length, (folder) => {
+			this.exportImages(sources, folder);
+		}).open();
+	}
+
+	private async exportImages(sources: string[], folder: string) {
+		const adapter = this.app.vault.adapter;
+		let exported = 0;
+		
+		try {
+			if (!this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			
+			for (const src of sources) {
+				const file = this.getFileForSource(src);
+				if (file) {
+					const targetPath = this.getAvailablePath(folder, file.basename, file.extension);
+					await this.app.vault.copy(file, targetPath);
+					
+					// Bring the annotations along so the copies look the same in the viewer
+					const sidecarPath = file.path + ANNOTATION_SIDECAR_SUFFIX;
+					if (await adapter.exists(sidecarPath)) {
+						await adapter.copy(sidecarPath, targetPath + ANNOTATION_SIDECAR_SUFFIX);
+					}
+				} else {
+					// External images are downloaded into the vault
+					const blob = await (await fetch(src)).blob();
+					const name = this.getImageDisplayName(src).replace(/\.[^.]*$/, '') || 'image';
+					const extension = blob.type.startsWith('image/') ? blob.type.slice(6).replace('jpeg', 'jpg').replace('svg+xml', 'svg') : 'png';
+					await this.app.vault.createBinary(this.getAvailablePath(folder, name, extension), await blob.arrayBuffer());
+				}
+				exported++;
+			}
+			this.showNotice(`Exported ${exported} image${exported === 1 ? '' : 's'} to ${folder}`);
+		} catch (error) {
+			console.error('Failed to export images:', error);
+			this.showNotice(`Exported ${exported} of ${sources.length} images, then failed`);
+		}
+	}
+
+	// Filmstrip-related methods
+	private createFilmstrip() {
+		if (this.allImages.length <= 1) return;
+		
+		this.filmstripElement = this.contentEl.createDiv('image-viewer-filmstrip');
+		const header = this.filmstripElement.createDiv('filmstrip-header');
+		this.filmstripCounter = header.createSpan('filmstrip-counter');
+		const toggleButton = header.createEl('button', {
+			cls: 'filmstrip-toggle',
+			title: 'Toggle thumbnails (F)'
+		});
+		toggleButton.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M6 9l6 6 6-6"></path></svg>`;
+		toggleButton.addEventListener('click', () => this.toggleFilmstrip());
+		
+		this.filmstripTrack = this.filmstripElement.createDiv('filmstrip-track');
+		
+		// Thumbnails only load once they scroll into view, so long notes stay fast
+		this.filmstripObserver = new IntersectionObserver(entries => {
+			entries.forEach(entry => {
+				if (!entry.isIntersecting) return;
+				const thumbnail = entry.target as HTMLImageElement;
+				thumbnail.src = thumbnail.getAttribute('data-src') || '';
+				this.filmstripObserver?.unobserve(thumbnail);
+			});
+		}, { root: this.filmstripTrack, rootMargin: '0px 300px' });
+		
+		this.allImages.forEach((src, index) => {
+			const thumbButton = this.filmstripTrack.createEl('button', {
+				cls: 'filmstrip-thumb',
+				title: `Image ${index + 1}`
+			});
+			const thumbnail = thumbButton.createEl('img');
+			thumbnail.setAttribute('data-src', src);
+			thumbnail.draggable = false;
+			this.filmstripObserver?.observe(thumbnail);
+			thumbButton.addEventListener('click', () => this.goToImage(index));
+		});
+		
+		this.updateFilmstripVisibility();
+		this.updateFilmstrip();
+	}
+
+	private updateFilmstrip() {
+		if (!this.filmstripElement) return;
+		
+		this.filmstripCounter.textContent = `${this.currentImageIndex + 1} / ${this.allImages.length}`;
+		
+		const thumbs = Array.from(this.filmstripTrack.children) as HTMLElement[];
+		thumbs.forEach((thumb, index) => thumb.classList.toggle('active', index === this.currentImageIndex));
+		
+		// Keep the current thumbnail centred in the strip
+		const current = thumbs[this.currentImageIndex];
+		if (current && !this.filmstripCollapsed) {
+			this.filmstripTrack.scrollTo({
+				left: current.offsetLeft - (this.filmstripTrack.clientWidth - current.offsetWidth) / 2,
+				behavior: 'smooth'
+			});
+		}
+	}
+
+	private refreshFilmstripThumbnail(index: number) {
+		if (!this.filmstripElement) return;
+		
+		const thumbnail = this.filmstripTrack.children[index]?.querySelector('img');
+		if (!thumbnail) return;
+		thumbnail.setAttribute('data-src', this.allImages[index]);
+		// Thumbnails that haven't loaded yet pick up the new source when they come into view
+		if (thumbnail.getAttribute('src')) {
+			thumbnail.src = this.allImages[index];
+		}
+	}
+
+	private toggleFilmstrip() {
+		if (!this.filmstripElement) return;
+		
+		this.filmstripCollapsed = !this.filmstripCollapsed;
+		this.updateFilmstripVisibility();
+		this.updateFilmstrip();
+	}
+
+	private updateFilmstripVisibility() {
+		this.filmstripElement.classList.toggle('is-collapsed', this.filmstripCollapsed);
+		this.contentEl.classList.toggle('filmstrip-open', !this.filmstripCollapsed);
+	}
+
+	private goToImage(index: number) {
+		if (index < 0 || index >= this.allImages.length || index === this.currentImageIndex) return;
+		
+		this.currentImageIndex = index;
+		this.loadNewImage(this.allImages[index]);
+	}
+
+	private loadNewImage(newSrc: string) {
+		// Finish an open label on the image it belongs to
+		this.closeTextEditor(true);
+		this.disposeAnimation();
+
+		this.imageSrc = newSrc;
+		// Preloaded images are already decoded, so only flag slow loads
+		this.setLoadingState(this.imageCache.has(newSrc) ? 'loaded' : 'loading');
+		this.imageCache.touch(newSrc);
+		this.imageElement.src = newSrc;
+		this.preloadAdjacentImages();
+		
+		// Reset transform and wait for image to load
+		this.currentScale = 1;
+		this.resetOrientation();
+		this.centerImageInViewport();
+		this.updateImageTransform();
+		
+		// Swap in the annotations saved for the new image
+		this.cropRect = null;
+		this.updateCropPanel();
+		this.updateFilmstrip();
+		this.refreshBacklinks();
+		this.loadAnnotations();
+
+		// Update original dimensions when new image loads
+		this.imageElement.addEventListener('load', () => {
+			this.originalImageWidth = this.imageElement.naturalWidth;
+			this.originalImageHeight = this.imageElement.naturalHeight;
+			this.setInitialModalSize(); // Use the scaling logic for new images too
+		}, { once: true });
+	}
+
+	// Measurement
+	private createMeasurePanel() {
+		this.measurePanel = this.contentEl.createDiv('measure-panel');
+		this.measurePanel.style.display = 'none';
+		
+		const shapeGroup = this.measurePanel.createDiv('setting-group');
+		shapeGroup.createEl('label', { text: 'Measure:' });
+		const shapes: { shape: MeasureShape; label: string }[] = [
+			{ shape: 'line', label: 'Line' },
+			{ shape: 'box', label: 'Box' }
+		];
+		shapes.forEach(({ shape, label }) => {
+			const button = shapeGroup.createEl('button', { cls: 'measure-shape-btn', text: label });
+			button.setAttribute('data-shape', shape);
+			button.addEventListener('click', () => {
+				this.measureShape = shape;
+				this.updateMeasurePanel();
+			});
+		});
+		
+		this.measureResultLabel = this.measurePanel.createDiv('measure-result');
+		
+		const scaleGroup = this.measurePanel.createDiv('setting-group');
+		this.measureScaleLabel = scaleGroup.createSpan('measure-scale');
+		this.measureSetScaleButton = scaleGroup.createEl('button', { text: 'Set scale…' });
+		this.measureSetScaleButton.addEventListener('click', () => this.openMeasureScaleModal());
+		this.measureClearScaleButton = scaleGroup.createEl('button', { text: 'Clear' });
+		this.measureClearScaleButton.addEventListener('click', () => {
+			this.measureScale = null;
+			this.saveAnnotations();
+			this.renderAnnotations();
+			this.updateMeasurePanel();
+		});
+		
+		const actionGroup = this.measurePanel.createDiv('setting-group');
+		this.measureKeepButton = actionGroup.createEl('button', { cls: 'mod-cta', text: 'Keep as annotation' });
+		this.measureKeepButton.addEventListener('click', () => this.keepMeasurement());
+		
+		this.updateMeasurePanel();
+	}
+
+	private updateMeasurePanel() {
+		if (!this.measurePanel) return;
+		
+		this.measurePanel.style.display = this.currentMode === 'measure' ? '' : 'none';
+		this.measurePanel.querySelectorAll('.measure-shape-btn').forEach(button => {
+			button.classList.toggle('active', button.getAttribute('data-shape') === this.measureShape);
+		});
+		
+		const measurement = this.activeMeasurement;
+		this.measureResultLabel.textContent = measurement
+			? this.getMeasurementLabel(measurement)
+			: `Drag on the image to measure ${this.measureShape === 'line' ? 'a distance' : 'an area'}`;
+		
+		this.measureScaleLabel.textContent = this.measureScale
+			? `1 px = ${this.formatMeasureNumber(this.measureScale.unitsPerPixel)} ${this.measureScale.unit}`
+			: 'Scale: pixels';
+		this.measureSetScaleButton.disabled = !measurement || measurement.shape !== 'line' || this.getMeasurementLength(measurement) === 0;
+		this.measureSetScaleButton.title = this.measureSetScaleButton.disabled
+			? 'Measure a line of known length first'
+			: 'Enter the real length of the measured line to calibrate all measurements';
+		this.measureClearScaleButton.style.display = this.measureScale ? '' : 'none';
+		this.measureKeepButton.disabled = !measurement || this.isDrawing;
+	}
+
+	private startMeasurement(e: MouseEvent) {
+		this.isDrawing = true;
+		
+		// Sizes are fixed in image pixels now, so kept measurements look the same when saved
+		const scale = this.getDisplayScale();
+		const start = this.clampToImage(this.clientToImagePoint(e.clientX, e.clientY));
+		this.activeMeasurement = {
+			id: this.createAnnotationId(),
+			type: 'measure',
+			shape: this.measureShape,
+			start: start,
+			end: { ...start },
+			color: this.drawingColor,
+			width: 2 / scale,
+			fontSize: 13 / scale
+		};
+		
+		e.preventDefault();
+		e.stopPropagation();
+	}
+
+	private updateMeasurement(e: MouseEvent) {
+		if (!this.isDrawing || !this.activeMeasurement) return;
+		
+		const measurement = this.activeMeasurement;
+		const point = this.clientToImagePoint(e.clientX, e.clientY);
+		// Shift snaps lines to 45° and boxes to squares, like the shape tools
+		measurement.end = this.clampToImage(e.shiftKey
+			? this.constrainShapeEnd(measurement.shape === 'line' ? 'line' : 'rectangle', measurement.start, point)
+			: point);
+		this.renderAnnotations();
+		this.updateMeasurePanel();
+	}
+
+	private stopMeasurement() {
+		if (!this.isDrawing) return;
+		this.isDrawing = false;
+		
+		// A click without a drag clears the last measurement
+		const measurement = this.activeMeasurement;
+		if (measurement && Math.hypot(measurement.end.x - measurement.start.x, measurement.end.y - measurement.start.y) < 1) {
+			this.activeMeasurement = null;
+		}
+		this.renderAnnotations();
+		this.updateMeasurePanel();
+	}
+
+	private keepMeasurement() {
+		const measurement = this.activeMeasurement;
+		if (!measurement) return;
+		
+		this.activeMeasurement = null;
+		this.recordHistory();
+		this.annotations.push(measurement);
+		this.commitAnnotations();
+		this.updateMeasurePanel();
+	}
+
+	private openMeasureScaleModal() {
+		const measurement = this.activeMeasurement;
+		if (!measurement || measurement.shape !== 'line') return;
+		
+		const pixels = this.getMeasurementLength(measurement);
+		new MeasureScaleModal(this.app, pixels, this.measureScale?.unit || 'cm', (length, unit) => {
+			this.measureScale = { unitsPerPixel: length / pixels, unit };
+			this.saveAnnotations();
+			this.renderAnnotations();
+			this.updateMeasurePanel();
+		}).open();
+	}
+
+	private getMeasurementLength(measurement: MeasureAnnotation): number {
+		return Math.hypot(measurement.end.x - measurement.start.x, measurement.end.y - measurement.start.y);
+	}
+
+	private getMeasurementLabel(measurement: MeasureAnnotation): string {
+		const dx = measurement.end.x - measurement.start.x;
+		const dy = measurement.end.y - measurement.start.y;
+		
+		if (measurement.shape === 'box') {
+			return `${this.formatMeasureLength(Math.abs(dx))} × ${this.formatMeasureLength(Math.abs(dy))}`;
+		}
+		
+		// Angles count counter-clockwise from the image's horizontal, as on a protractor
+		const angle = Math.atan2(-dy, dx) * 180 / Math.PI;
+		return `${this.formatMeasureLength(Math.hypot(dx, dy))} · ${angle.toFixed(1)}°`;
+	}
+
+	private formatMeasureLength(pixels: number): string {
+		if (!this.measureScale) return `${this.formatMeasureNumber(pixels)} px`;
+		return `${this.formatMeasureNumber(pixels * this.measureScale.unitsPerPixel)} ${this.measureScale.unit}`;
+	}
+
+	private formatMeasureNumber(value: number): string {
+		// Enough digits to be useful without drowning small values in zeros
+		if (value === 0) return '0';
+		const digits = Math.abs(value) >= 100 ? 0 : Math.abs(value) >= 1 ? 1 : 3;
+		return Number(value.toFixed(digits)).toString();
+	}
+
+	private drawMeasurement(context: CanvasRenderingContext2D, annotation: MeasureAnnotation) {
+		const { start, end, width, fontSize } = annotation;
+		context.strokeStyle = annotation.color;
+		context.lineWidth = width;
+		context.lineCap = 'round';
+		context.setLineDash([]);
+		
+		context.beginPath();
+		if (annotation.shape === 'box') {
+			context.setLineDash([width * 3, width * 2]);
+			context.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+		} else {
+			// End ticks square to the line, like a dimension line
+			const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+			const tickX = -(end.y - start.y) / length * fontSize * 0.5;
+			const tickY = (end.x - start.x) / length * fontSize * 0.5;
+			context.moveTo(start.x, start.y);
+			context.lineTo(end.x, end.y);
+			[start, end].forEach(point => {
+				context.moveTo(point.x - tickX, point.y - tickY);
+				context.lineTo(point.x + tickX, point.y + tickY);
+			});
+		}
+		context.stroke();
+		context.setLineDash([]);
+		
+		// Label on a dark pill in the middle so it reads on any background
+		const label = this.getMeasurementLabel(annotation);
+		context.font = `600 ${fontSize}px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif`;
+		context.textAlign = 'center';
+		context.textBaseline = 'middle';
+		const padding = fontSize * 0.4;
+		const labelWidth = context.measureText(label).width + padding * 2;
+		const labelHeight = fontSize + padding * 2;
+		const centerX = (start.x + end.x) / 2;
+		const centerY = (start.y + end.y) / 2;
+		context.fillStyle = 'rgba(0, 0, 0, 0.75)';
+		context.fillRect(centerX - labelWidth / 2, centerY - labelHeight / 2, labelWidth, labelHeight);
+		context.fillStyle = '#ffffff';
+		context.fillText(label, centerX, centerY);
+	}
+
+	// Pixel inspector
+	private updateInspector(e: MouseEvent) {
+		const pixel = this.getPixelAtClient(e.clientX, e.clientY);
+		if (!pixel) {
+			this.hideInspector();
+			return;
+		}
+		
+		if (!this.inspectReadout) {
+			this.inspectReadout = this.contentEl.createDiv('image-viewer-inspector');
+		}
+		const readout = this.inspectReadout;
+		readout.empty();
+		
+		const colorRow = readout.createDiv('inspector-row');
+		const swatch = colorRow.createSpan('inspector-swatch');
+		if (pixel.color) {
+			const [r, g, b, a] = pixel.color;
+			swatch.style.background = `rgba(${r}, ${g}, ${b}, ${a / 255})`;
+			colorRow.createSpan({ cls: 'inspector-hex', text: this.toHexColor(pixel.color) });
+			readout.createDiv({ cls: 'inspector-row', text: `rgba(${r}, ${g}, ${b}, ${+(a / 255).toFixed(2)})` });
+		} else {
+			colorRow.createSpan({ text: 'Colour not readable' });
+		}
+		readout.createDiv({ cls: 'inspector-row inspector-coords', text: `x ${pixel.x}, y ${pixel.y}` });
+		
+		// Follow the cursor, flipping to the other side near the window edges
+		const offset = 16;
+		const width = readout.offsetWidth;
+		const height = readout.offsetHeight;
+		const left = e.clientX + offset + width > window.innerWidth ? e.clientX - offset - width : e.clientX + offset;
+		const top = e.clientY + offset + height > window.innerHeight ? e.clientY - offset - height : e.clientY + offset;
+		readout.style.left = `${left}px`;
+		readout.style.top = `${top}px`;
+	}
+
+	private hideInspector() {
+		this.inspectReadout?.remove();
+		this.inspectReadout = null;
+	}
+
+	private async pickInspectedColor(e: MouseEvent) {
+		const pixel = this.getPixelAtClient(e.clientX, e.clientY);
+		if (!pixel) return;
+		if (!pixel.color) {
+			this.showNotice("Can't read the colours of this image");
+			return;
+		}
+		
+		if (e.shiftKey) {
+			// The colour input only takes opaque #rrggbb values
+			this.drawingColor = this.toHexColor([pixel.color[0], pixel.color[1], pixel.color[2], 255]);
+			this.syncTextSettingsUI();
+			this.showNotice(`Pen colour set to ${this.drawingColor}`);
+			return;
+		}
+		
+		const hex = this.toHexColor(pixel.color);
+		try {
+			await navigator.clipboard.writeText(hex);
+			this.showNotice(`Copied ${hex}`);
+		} catch (error) {
+			console.error('Failed to copy colour:', error);
+			this.showNotice('Failed to copy colour');
+		}
+	}
+
+	private getPixelAtClient(clientX: number, clientY: number): { x: number; y: number; color: number[] | null } | null {
+		// clientToImagePoint undoes zoom, pan, rotation and flip
+		const point = this.clientToImagePoint(clientX, clientY);
+		const x = Math.floor(point.x);
+		const y = Math.floor(point.y);
+		if (x < 0 || y < 0 || x >= this.originalImageWidth || y >= this.originalImageHeight) return null;
+		
+		try {
+			const context = this.getInspectContext();
+			return { x, y, color: Array.from(context.getImageData(x, y, 1, 1).data) };
+		} catch (error) {
+			// External images without CORS headers can be shown but not read
+			return { x, y, color: null };
+		}
+	}
+
+	private getInspectContext(): CanvasRenderingContext2D {
+		// Draw the image once at natural size and read single pixels from it afterwards
+		const key = `${this.imageElement.src}|${this.originalImageWidth}x${this.originalImageHeight}|${this.animationDecoder ? this.animationFrameIndex : ''}`;
+		if (!this.inspectCanvas || this.inspectKey !== key) {
+			this.inspectCanvas = document.createElement('canvas');
+			this.inspectCanvas.width = this.originalImageWidth;
+			this.inspectCanvas.height = this.originalImageHeight;
+			const context = this.inspectCanvas.getContext('2d', { willReadFrequently: true } as CanvasRenderingContext2DSettings)!;
+			context.drawImage(this.getBaseImage(), 0, 0, this.originalImageWidth, this.originalImageHeight);
+			this.inspectKey = key;
+		}
+		return this.inspectCanvas.getContext('2d')!;
+	}
+
+	private toHexColor(color: number[]): string {
+		const channels = color[3] === 255 ? color.slice(0, 3) : color.slice(0, 4);
+		return '#' + channels.map(channel => channel.toString(16).padStart(2, '0')).join('');
+	}
+
+	// Display adjustments
+	private createAdjustmentsPanel() {
+		this.adjustmentsPanel = this.contentEl.createDiv('image-viewer-adjustments-panel');
+		
+		const sliders: { key: keyof ImageAdjustments; label: string; max: number }[] = [
+			{ key: 'brightness', label: 'Brightness', max: 200 },
+			{ key: 'contrast', label: 'Contrast', max: 200 },
+			{ key: 'saturation', label: 'Saturation', max: 200 },
+			{ key: 'grayscale', label: 'Grayscale', max: 100 },
+			{ key: 'invert', label: 'Invert', max: 100 }
+		];
+		sliders.forEach(({ key, label, max }) => {
+			const group = this.adjustmentsPanel.createDiv('setting-group');
+			group.createEl('label', { text: label });
+			const slider = group.createEl('input', { type: 'range', cls: 'adjustment-slider' }) as HTMLInputElement;
+			slider.min = '0';
+			slider.max = max.toString();
+			const value = group.createSpan('adjustment-value');
+			slider.addEventListener('input', () => {
+				this.adjustments[key] = Number(slider.value);
+				this.applyAdjustments();
+			});
+			this.adjustmentInputs.push({ key, slider, value });
+		});
+		
+		const actionGroup = this.adjustmentsPanel.createDiv('setting-group');
+		this.smartInvertButton = actionGroup.createEl('button', {
+			cls: 'smart-invert-btn',
+			text: 'Smart invert',
+			title: 'Invert brightness but keep hues, for light diagrams in dark theme (Shift+I)'
+		});
+		this.smartInvertButton.addEventListener('click', () => this.toggleSmartInvert());
+		
+		const resetButton = actionGroup.createEl('button', { text: 'Reset' });
+		resetButton.addEventListener('click', () => {
+			this.adjustments = { ...DEFAULT_ADJUSTMENTS };
+			this.applyAdjustments();
+		});
+		
+		const saveGroup = this.adjustmentsPanel.createDiv('setting-group');
+		const saveButton = saveGroup.createEl('button', { cls: 'mod-cta', text: 'Save adjusted copy…' });
+		saveButton.addEventListener('click', () => this.saveAdjustedImage());
+		
+		// Diagrams drawn for light backgrounds glare in dark theme
+		if (this.settings.smartInvertInDarkTheme && document.body.hasClass('theme-dark')) {
+			this.adjustments.invert = 100;
+			this.adjustments.hueRotate = 180;
+		}
+		
+		this.updateAdjustmentsPanelVisibility();
+		this.applyAdjustments();
+	}
+
+	private toggleAdjustmentsPanel() {
+		this.adjustmentsPanelOpen = !this.adjustmentsPanelOpen;
+		this.updateAdjustmentsPanelVisibility();
+	}
+
+	private updateAdjustmentsPanelVisibility() {
+		this.adjustmentsPanel.style.display = this.adjustmentsPanelOpen ? '' : 'none';
+		
+		// Sit just left of the drawing settings, whose width depends on its contents
+		const drawingPanel = this.contentEl.querySelector('.drawing-settings-panel');
+		if (this.adjustmentsPanelOpen && drawingPanel) {
+			// Popout windows have their own width
+			const viewerWindow = this.sourceDocument.defaultView || window;
+			this.adjustmentsPanel.style.right = `${viewerWindow.innerWidth - drawingPanel.getBoundingClientRect().left + 12}px`;
+		}
+	}
+
+	private toggleSmartInvert() {
+		// Inverting and turning the hue wheel half way flips light and dark but keeps red red
+		const active = this.isSmartInvertActive();
+		this.adjustments.invert = active ? 0 : 100;
+		this.adjustments.hueRotate = active ? 0 : 180;
+		this.applyAdjustments();
+	}
+
+	private isSmartInvertActive(): boolean {
+		return this.adjustments.invert === 100 && this.adjustments.hueRotate === 180;
+	}
+
+	private applyAdjustments() {
+		this.imageElement.style.filter = this.getAdjustmentFilter();
+		this.updateAnimationLayout();
+		
+		this.adjustmentInputs.forEach(({ key, slider, value }) => {
+			slider.value = this.adjustments[key].toString();
+			value.textContent = `${this.adjustments[key]}${key === 'hueRotate' ? '°' : '%'}`;
+		});
+		this.smartInvertButton.classList.toggle('active', this.isSmartInvertActive());
+	}
+
+	private hasAdjustments(): boolean {
+		return (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[])
+			.some(key => this.adjustments[key] !== DEFAULT_ADJUSTMENTS[key]);
+	}
+
+	private getAdjustmentFilter(): string {
+		if (!this.hasAdjustments()) return '';
+		
+		const { brightness, contrast, saturation, grayscale, invert, hueRotate } = this.adjustments;
+		return `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%) grayscale(${grayscale}%) invert(${invert}%) hue-rotate(${hueRotate}deg)`;
+	}
+
+	private saveAdjustedImage() {
+		if (!this.hasAdjustments()) {
+			this.showNotice('Adjust the image first');
+			return;
+		}
+		
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) {
+			this.showNotice('Only images stored in the vault can be saved');
+			return;
+		}
+		
+		// Canvas filters use the same syntax as CSS, but not every WebView supports them
+		const probe = document.createElement('canvas').getContext('2d')!;
+		if (typeof probe.filter !== 'string') {
+			this.showNotice("This device can't save adjusted images");
+			return;
+		}
+		
+		const adjusted = this.renderTransformedComposite(undefined, this.getAdjustmentFilter());
+		new SaveImageModal(this.app, {
+			title: 'Save adjusted image',
+			description: `Write "${imageFile.name}" with the current adjustments${this.annotations.length > 0 ? ' and annotations' : ''} applied.`,
+			copySuffix: '-adjusted',
+			canOverwrite: this.getEncodingType(imageFile.extension) !== null
+		}, async (mode) => {
+			const saved = await this.writeImageToVault(imageFile, adjusted, mode, '-adjusted');
+			if (!saved || mode === 'copy') return;
+			
+			// The file now carries the adjustments and orientation, so show it as is
+			this.adjustments = { ...DEFAULT_ADJUSTMENTS };
+			this.applyAdjustments();
+			this.resetOrientation();
+			this.updateImageTransform();
+		}).open();
+	}
+
+	// Animated image playback
+	private createAnimationBar() {
+		this.animationBar = this.contentEl.createDiv('image-viewer-animation-bar');
+		
+		const previousButton = this.animationBar.createEl('button', {
+			cls: 'image-viewer-control-btn',
+			title: 'Previous frame (,)'
+		});
+		previousButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M17 18l-8-6 8-6z" fill="currentColor"></path><line x1="7" y1="6" x2="7" y2="18"></line></svg>`;
+		previousButton.addEventListener('click', () => this.stepAnimation(-1));
+		
+		this.animationPlayButton = this.animationBar.createEl('button', {
+			cls: 'image-viewer-control-btn',
+			title: 'Play / pause (P)'
+		});
+		this.animationPlayButton.addEventListener('click', () => this.toggleAnimationPlayback());
+		
+		const nextButton = this.animationBar.createEl('button', {
+			cls: 'image-viewer-control-btn',
+			title: 'Next frame (.)'
+		});
+		nextButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M7 6l8 6-8 6z" fill="currentColor"></path><line x1="17" y1="6" x2="17" y2="18"></line></svg>`;
+		nextButton.addEventListener('click', () => this.stepAnimation(1));
+		
+		this.animationScrubber = this.animationBar.createEl('input', { type: 'range', cls: 'animation-scrubber' }) as HTMLInputElement;
+		this.animationScrubber.min = '0';
+		this.animationScrubber.addEventListener('input', () => {
+			this.pauseAnimation();
+			this.showAnimationFrame(Number(this.animationScrubber.value));
+		});
+		
+		this.animationCounter = this.animationBar.createSpan('animation-counter');
+		
+		const speedSelect = this.animationBar.createEl('select', { cls: 'dropdown' }) as HTMLSelectElement;
+		ANIMATION_SPEEDS.forEach(speed => speedSelect.createEl('option', { value: speed.toString(), text: `${speed}×` }));
+		speedSelect.value = this.animationSpeed.toString();
+		speedSelect.addEventListener('change', () => {
+			this.animationSpeed = Number(speedSelect.value);
+		});
+		
+		const exportButton = this.animationBar.createEl('button', {
+			cls: 'image-viewer-control-btn',
+			title: 'Save this frame as PNG'
+		});
+		exportButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>`;
+		exportButton.addEventListener('click', () => this.exportAnimationFrame());
+		
+		this.updateAnimationUI();
+	}
+
+	private async setupAnimation() {
+		this.disposeAnimation();
+		
+		const requestedSrc = this.imageSrc;
+		const mimeType = this.getAnimationMimeType(requestedSrc);
+		const Decoder = (window as unknown as { ImageDecoder?: AnimationImageDecoderConstructor }).ImageDecoder;
+		// Without WebCodecs (e.g. on iOS) the browser keeps looping the image on its own
+		if (!mimeType || !Decoder) return;
+		
+		try {
+			if (!(await Decoder.isTypeSupported(mimeType))) return;
+			
+			const data = await this.readAnimatedImageData(requestedSrc, mimeType);
+			if (!data || this.imageSrc !== requestedSrc) return;
+			const decoder = new Decoder({ data, type: mimeType });
+			await decoder.tracks.ready;
+			await decoder.completed;
+			
+			// Still images and images the user has already moved past are left alone
+			const track = decoder.tracks.selectedTrack;
+			if (this.imageSrc !== requestedSrc || this.animationDecoder || !track || !track.animated || track.frameCount <= 1) {
+				decoder.close();
+				return;
+			}
+			
+			this.animationDecoder = decoder;
+			this.animationFrameCount = track.frameCount;
+			this.animationFrameIndex = 0;
+			this.animationPlaying = true;
+			this.animationCanvas.width = this.originalImageWidth;
+			this.animationCanvas.height = this.originalImageHeight;
+			this.containerElement.addClass('animation-active');
+			this.updateAnimationLayout();
+			this.showAnimationFrame(0);
+		} catch (error) {
+			console.error('Failed to decode animation:', error);
+		}
+	}
+
+	private disposeAnimation() {
+		this.clearAnimationTimer();
+		this.animationRequest++;
+		if (this.animationDecoder) {
+			this.animationDecoder.close();
+			this.animationDecoder = null;
+		}
+		this.containerElement.removeClass('animation-active');
+		this.updateAnimationUI();
+	}
+
+	private getAnimationMimeType(src: string): string | null {
+		const file = this.getFileForSource(src);
+		const extension = (file ? file.extension : src.split('?')[0].split('.').pop() || '').toLowerCase();
+		return ANIMATION_MIME_TYPES[extension] || null;
+	}
+
+	private async readAnimatedImageData(src: string, mimeType: string): Promise<ArrayBuffer | null> {
+		// Only the header is read for still images, so screenshots aren't fetched and parsed twice
+		const response = await fetch(src);
+		const reader = response.body?.getReader();
+		if (!reader) {
+			const data = await response.arrayBuffer();
+			return this.isAnimatedImageHeader(new Uint8Array(data), mimeType) ? data : null;
+		}
+		
+		const chunks: Uint8Array[] = [];
+		let length = 0;
+		let done = false;
+		while (!done && length < ANIMATION_HEADER_BYTES) {
+			const result = await reader.read();
+			done = result.done;
+			if (result.value) {
+				chunks.push(result.value);
+				length += result.value.length;
+			}
+		}
+		
+		if (!this.isAnimatedImageHeader(this.joinChunks(chunks, length), mimeType)) {
+			if (!done) reader.cancel();
+			return null;
+		}
+		
+		while (!done) {
+			const result = await reader.read();
+			done = result.done;
+			if (result.value) {
+				chunks.push(result.value);
+				length += result.value.length;
+			}
+		}
+		return this.joinChunks(chunks, length).buffer;
+	}
+
+	private joinChunks(chunks: Uint8Array[], length: number): Uint8Array {
+		const bytes = new Uint8Array(length);
+		let offset = 0;
+		chunks.forEach(chunk => {
+			bytes.set(chunk, offset);
+			offset += chunk.length;
+		});
+		return bytes;
+	}
+
+	private isAnimatedImageHeader(bytes: Uint8Array, mimeType: string): boolean {
+		// When the header is cut off before it answers, the decoder gets to decide
+		const text = (start: number, length: number) => String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+		const uint32 = (offset: number) => ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+		
+		switch (mimeType) {
+			case 'image/png':
+			case 'image/apng': {
+				// APNG puts an acTL chunk ahead of the first IDAT
+				let offset = 8;
+				while (offset + 8 <= bytes.length) {
+					const type = text(offset + 4, 4);
+					if (type === 'acTL') return true;
+					if (type === 'IDAT' || type === 'IEND') return false;
+					offset += 12 + uint32(offset);
+				}
+				return true;
+			}
+			case 'image/webp':
+				// Only the extended VP8X layout can animate, flagged in its first byte
+				if (bytes.length < 21) return true;
+				return text(12, 4) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+			case 'image/avif': {
+				// Image sequences carry the "avis" brand in the ftyp box
+				if (bytes.length < 12) return true;
+				if (text(4, 4) !== 'ftyp') return false;
+				const end = Math.min(uint32(0), bytes.length);
+				for (let offset = 8; offset + 4 <= end; offset += 4) {
+					if (text(offset, 4) === 'avis') return true;
+				}
+				return false;
+			}
+			case 'image/gif': {
+				// Walk the blocks until a second frame shows up or the file ends
+				if (bytes.length < 13) return true;
+				let offset = 13;
+				if (bytes[10] & 0x80) offset += 3 * (1 << ((bytes[10] & 0x07) + 1));
+				let frames = 0;
+				const skipSubBlocks = () => {
+					while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+					offset++;
+				};
+				while (offset < bytes.length) {
+					const block = bytes[offset];
+					if (block === 0x3B) return false;
+					if (block === 0x21) {
+						offset += 2;
+						skipSubBlocks();
+					} else if (block === 0x2C) {
+						if (++frames > 1) return true;
+						if (offset + 10 > bytes.length) return true;
+						const flags = bytes[offset + 9];
+						offset += 10;
+						if (flags & 0x80) offset += 3 * (1 << ((flags & 0x07) + 1));
+						// LZW minimum code size, then the image data
+						offset++;
+						skipSubBlocks();
+					} else {
+						return false;
+					}
+				}
+				return true;
+			}
+			default:
+				return true;
+		}
+	}
+
+	private async showAnimationFrame(index: number) {
+		const decoder = this.animationDecoder;
+		if (!decoder) return;
+		
+		const request = ++this.animationRequest;
+		this.clearAnimationTimer();
+		try {
+			const { image } = await decoder.decode({ frameIndex: index });
+			
+			// A newer frame or another image was asked for while this one decoded
+			if (request !== this.animationRequest || decoder !== this.animationDecoder) {
+				image.close();
+				return;
+			}
+			
+			const context = this.animationCanvas.getContext('2d')!;
+			context.clearRect(0, 0, this.animationCanvas.width, this.animationCanvas.height);
+			context.drawImage(image as unknown as CanvasImageSource, 0, 0, this.animationCanvas.width, this.animationCanvas.height);
+			// Microseconds; browsers play near-zero GIF delays at 100ms, so do the same
+			const duration = (image.duration || 0) / 1000;
+			image.close();
+			
+			this.animationFrameIndex = index;
+			this.updateAnimationUI();
+			if (this.animationPlaying) {
+				const delay = duration <= ANIMATION_MIN_FRAME_DURATION ? ANIMATION_DEFAULT_FRAME_DURATION : duration;
+				this.animationTimer = window.setTimeout(() => {
+					this.showAnimationFrame((this.animationFrameIndex + 1) % this.animationFrameCount);
+				}, delay / this.animationSpeed);
+			}
+		} catch (error) {
+			console.error('Failed to decode animation frame:', error);
+			this.pauseAnimation();
+		}
+	}
+
+	private clearAnimationTimer() {
+		if (this.animationTimer !== null) {
+			window.clearTimeout(this.animationTimer);
+			this.animationTimer = null;
+		}
+	}
+
+	private toggleAnimationPlayback() {
+		if (!this.animationDecoder) return;
+		
+		if (this.animationPlaying) {
+			this.pauseAnimation();
+		} else {
+			this.animationPlaying = true;
+			this.showAnimationFrame((this.animationFrameIndex + 1) % this.animationFrameCount);
+		}
+	}
+
+	private pauseAnimation() {
+		this.animationPlaying = false;
+		this.clearAnimationTimer();
+		this.updateAnimationUI();
+	}
+
+	private stepAnimation(delta: number) {
+		if (!this.animationDecoder) return;
+		
+		this.pauseAnimation();
+		const count = this.animationFrameCount;
+		this.showAnimationFrame((this.animationFrameIndex + delta + count) % count);
+	}
+
+	private updateAnimationUI() {
+		if (!this.animationBar) return;
+		
+		this.contentEl.toggleClass('animation-controls-visible', this.animationDecoder !== null);
+		if (!this.animationDecoder) return;
+		
+		this.animationPlayButton.innerHTML = this.animationPlaying
+			? `<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="5" width="4" height="14" rx="1"></rect><rect x="14" y="5" width="4" height="14" rx="1"></rect></svg>`
+			: `<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><path d="M7 5v14l12-7z"></path></svg>`;
+		this.animationScrubber.max = (this.animationFrameCount - 1).toString();
+		this.animationScrubber.value = this.animationFrameIndex.toString();
+		this.animationCounter.textContent = `${this.animationFrameIndex + 1} / ${this.animationFrameCount}`;
+	}
+
+	private updateAnimationLayout() {
+		if (!this.animationDecoder) return;
+		
+		// Cover the image exactly and follow its zoom, pan, rotation and adjustments
+		const canvas = this.animationCanvas;
+		canvas.style.left = `${this.imageElement.offsetLeft}px`;
+		canvas.style.top = `${this.imageElement.offsetTop}px`;
+		canvas.style.width = `${this.imageElement.offsetWidth}px`;
+		canvas.style.height = `${this.imageElement.offsetHeight}px`;
+		canvas.style.transform = this.imageElement.style.transform;
+		canvas.style.filter = this.imageElement.style.filter;
+	}
+
+	private getBaseImage(): CanvasImageSource {
+		// While playback is controlled here, the frame on screen is the image
+		return this.animationDecoder ? this.animationCanvas : this.imageElement;
+	}
+
+	private async exportAnimationFrame() {
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) {
+			this.showNotice('Only images stored in the vault can be exported');
+			return;
+		}
+		
+		this.pauseAnimation();
+		try {
+			const path = this.getAvailableSiblingPath(imageFile, `-frame-${this.animationFrameIndex + 1}`, 'png');
+			// Same redactions, annotations and orientation as a copy of the frame
+			const blob = await this.canvasToBlob(this.renderTransformedComposite(), 'image/png');
+			const frameFile = await this.app.vault.createBinary(path, await blob.arrayBuffer());
+			this.showNotice(`Saved ${frameFile.name}`);
+		} catch (error) {
+			console.error('Failed to export frame:', error);
+			this.showNotice('Failed to export frame');
+		}
+	}
+
+	private async copyImageLink() {
+		// Clipboards only take still images, so an embed is the way to carry the animation along
+		const file = this.getCurrentImageFile();
+		const link = file
+			? `![[${this.app.metadataCache.fileToLinktext(file, this.sourceFile?.path || '', false)}]]`
+			: `![](${this.imageSrc})`;
+		try {
+			await navigator.clipboard.writeText(link);
+			this.showNotice('Image link copied to clipboard');
+		} catch (error) {
+			console.error('Failed to copy image link:', error);
+			this.showNotice('Failed to copy image link');
+		}
+	}
+
+	// Compare mode
+	private createCompareView() {
+		// The second image gets the same box and transform as the first, so zoom and pan stay locked together
+		this.comparePane = this.contentEl.createDiv('image-viewer-compare-pane');
+		this.compareStage = this.comparePane.createDiv('compare-stage');
+		this.compareImage = this.compareStage.createEl('img', { cls: 'compare-image' });
+		this.compareImage.alt = 'Comparison image';
+		this.compareDiffCanvas = this.compareStage.createEl('canvas', { cls: 'compare-diff' });
+		
+		this.compareImage.addEventListener('load', () => {
+			this.updateCompareView();
+			this.updateCompareDiff();
+		});
+		this.compareImage.addEventListener('error', () => {
+			if (!this.compareMode) return;
+			console.error('Failed to load comparison image:', this.compareImage.src);
+			this.showNotice('Failed to load the comparison image');
+			this.closeCompare();
+		});
+		// Differences are measured against whichever image is current
+		this.imageElement.addEventListener('load', () => this.updateCompareDiff());
+		
+		// Swipe divider
+		this.compareDivider = this.contentEl.createDiv('image-viewer-compare-divider');
+		this.compareDivider.addEventListener('pointerdown', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.compareDivider.setPointerCapture(e.pointerId);
+			this.compareDividerDragging = true;
+		});
+		this.compareDivider.addEventListener('pointermove', (e) => {
+			if (!this.compareDividerDragging) return;
+			const rect = this.containerElement.getBoundingClientRect();
+			this.compareSwipePosition = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+			this.updateCompareView();
+		});
+		this.compareDivider.addEventListener('pointerup', () => this.compareDividerDragging = false);
+		this.compareDivider.addEventListener('pointercancel', () => this.compareDividerDragging = false);
+		this.compareDivider.addEventListener('click', (e) => e.stopPropagation());
+		
+		// Toolbar
+		this.compareBar = this.contentEl.createDiv('image-viewer-compare-bar');
+		this.compareNameLabel = this.compareBar.createSpan('compare-name');
+		
+		const changeButton = this.compareBar.createEl('button', { cls: 'compare-btn', text: 'Change…' });
+		changeButton.addEventListener('click', () => this.pickCompareImage());
+		
+		const modes: { mode: CompareMode; label: string }[] = [
+			{ mode: 'side-by-side', label: 'Side by side' },
+			{ mode: 'swipe', label: 'Swipe' },
+			{ mode: 'onion', label: 'Onion skin' }
+		];
+		modes.forEach(({ mode, label }) => {
+			const button = this.compareBar.createEl('button', { cls: 'compare-btn compare-mode-btn', text: label });
+			button.setAttribute('data-compare-mode', mode);
+			button.addEventListener('click', () => this.setCompareMode(mode));
+		});
+		
+		this.compareOpacityGroup = this.compareBar.createEl('label', { cls: 'compare-option' });
+		this.compareOpacityGroup.appendText('Opacity');
+		const opacityInput = this.compareOpacityGroup.createEl('input', { type: 'range' }) as HTMLInputElement;
+		opacityInput.min = '0';
+		opacityInput.max = '100';
+		opacityInput.value = Math.round(this.compareOpacity * 100).toString();
+		opacityInput.addEventListener('input', () => {
+			this.compareOpacity = Number(opacityInput.value) / 100;
+			this.updateCompareView();
+		});
+		
+		const diffLabel = this.compareBar.createEl('label', { cls: 'compare-option' });
+		this.compareDiffToggle = diffLabel.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+		diffLabel.appendText('Differences');
+		this.compareDiffToggle.addEventListener('change', () => {
+			this.compareShowDiff = this.compareDiffToggle.checked;
+			this.updateCompareDiff();
+			this.updateCompareView();
+		});
+		this.compareDiffLabel = this.compareBar.createSpan('compare-diff-stats');
+		
+		const closeButton = this.compareBar.createEl('button', {
+			cls: 'image-viewer-control-btn',
+			title: 'Stop comparing (Esc)'
+		});
+		closeButton.innerHTML = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>`;
+		closeButton.addEventListener('click', () => this.closeCompare());
+		
+		this.updateCompareUI();
+	}
+
+	private toggleCompare() {
+		if (this.compareMode) {
+			this.closeCompare();
+		} else {
+			this.pickCompareImage();
+		}
+	}
+
+	private pickCompareImage() {
+		const candidates = this.getCompareCandidates();
+		if (candidates.length === 0) {
+			this.showNotice('There are no other images to compare with');
+			return;
+		}
+		new CompareImageSuggestModal(this.app, candidates, (candidate) => this.openCompare(candidate.src)).open();
+	}
+
+	private getCompareCandidates(): CompareCandidate[] {
+		// Images from the current list come first, then the rest of the vault
+		const candidates: CompareCandidate[] = [];
+		const seen = new Set<string>([this.imageSrc]);
+		
+		this.allImages.forEach(src => {
+			if (seen.has(src)) return;
+			seen.add(src);
+			const file = this.getFileForSource(src);
+			candidates.push({ src, label: file ? file.path : this.getImageDisplayName(src) });
+		});
+		
+		// The resource query can differ from imageSrc's, so compare files too
+		const currentFile = this.getCurrentImageFile();
+		this.app.vault.getFiles().filter(isImageFile).forEach(file => {
+			const src = this.app.vault.getResourcePath(file);
+			if (seen.has(src) || file === currentFile) return;
+			seen.add(src);
+			candidates.push({ src, label: file.path });
+		});
+		
+		return candidates;
+	}
+
+	private openCompare(src: string) {
+		this.closeTextEditor(true);
+		this.closeGrid();
+		
+		this.compareMode = this.compareMode || 'side-by-side';
+		this.compareImage.src = src;
+		this.compareNameLabel.setText(this.getImageDisplayName(src));
+		this.updateCompareUI();
+	}
+
+	private closeCompare() {
+		if (!this.compareMode) return;
+		
+		this.compareMode = null;
+		this.compareShowDiff = false;
+		this.compareImage.removeAttribute('src');
+		this.updateCompareDiff();
+		this.updateCompareUI();
+	}
+
+	private setCompareMode(mode: CompareMode) {
+		this.compareMode = mode;
+		this.updateCompareUI();
+	}
+
+	private updateCompareUI() {
+		this.contentEl.toggleClass('compare-active', this.compareMode !== null);
+		this.contentEl.toggleClass('compare-swipe', this.compareMode === 'swipe');
+		// Keep the main image out of the right half while the second image is shown there
+		const sideBySide = this.compareMode === 'side-by-side';
+		const refit = sideBySide !== this.containerElement.hasClass('compare-left-half');
+		this.containerElement.toggleClass('compare-left-half', sideBySide);
+		
+		this.compareBar.querySelectorAll('.compare-mode-btn').forEach(button => {
+			button.classList.toggle('active', button.getAttribute('data-compare-mode') === this.compareMode);
+		});
+		this.compareOpacityGroup.style.display = this.compareMode === 'onion' ? '' : 'none';
+		this.compareDiffToggle.checked = this.compareShowDiff;
+		
+		// Side by side moves the main image into the left half, fitted to it
+		if (refit && this.originalImageWidth > 0) {
+			this.currentScale = this.getFitScale();
+			this.centerImageInViewport();
+		}
+		this.updateImageTransform();
+	}
+
+	private updateCompareView() {
+		if (!this.compareMode) return;
+		
+		const rect = this.containerElement.getBoundingClientRect();
+		const sideBySide = this.compareMode === 'side-by-side';
+		
+		// Same geometry as the main container, or its right half when side by side
+		this.comparePane.style.left = `${sideBySide ? rect.left + rect.width / 2 : rect.left}px`;
+		this.comparePane.style.top = `${rect.top}px`;
+		this.comparePane.style.width = `${sideBySide ? rect.width / 2 : rect.width}px`;
+		this.comparePane.style.height = `${rect.height}px`;
+		this.comparePane.style.paddingBottom = getComputedStyle(this.containerElement).paddingBottom;
+		this.comparePane.toggleClass('is-side-by-side', sideBySide);
+		
+		this.compareStage.style.width = `${this.imageElement.offsetWidth}px`;
+		this.compareStage.style.height = `${this.imageElement.offsetHeight}px`;
+		this.compareStage.style.transform = this.getImageTransform();
+		
+		// Swipe reveals the second image to the right of the divider
+		const dividerX = rect.width * this.compareSwipePosition;
+		this.comparePane.style.clipPath = this.compareMode === 'swipe' ? `inset(0 0 0 ${dividerX}px)` : '';
+		this.compareDivider.style.left = `${rect.left + dividerX}px`;
+		this.compareDivider.style.top = `${rect.top}px`;
+		this.compareDivider.style.height = `${rect.height}px`;
+		
+		this.compareImage.style.opacity = this.compareMode === 'onion' ? this.compareOpacity.toString() : '';
+		this.compareDiffCanvas.style.display = this.compareShowDiff ? '' : 'none';
+	}
+
+	private updateCompareDiff() {
+		const canvas = this.compareDiffCanvas;
+		canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+		this.compareDiffLabel.setText('');
+		
+		const other = this.compareImage;
+		if (!this.compareMode || !this.compareShowDiff || !other.complete || other.naturalWidth === 0 || this.originalImageWidth === 0) return;
+		
+		// Compare at a bounded size so large screenshots stay responsive
+		const scale = Math.min(1, COMPARE_DIFF_MAX_SIZE / Math.max(this.originalImageWidth, this.originalImageHeight));
+		const width = Math.max(1, Math.round(this.originalImageWidth * scale));
+		const height = Math.max(1, Math.round(this.originalImageHeight * scale));
+		
+		try {
+			const base = this.getImagePixels(this.imageElement, width, height);
+			const compared = this.getImagePixels(other, width, height);
+			
+			canvas.width = width;
+			canvas.height = height;
+			const context = canvas.getContext('2d')!;
+			const diff = context.createImageData(width, height);
+			let changed = 0;
+			for (let i = 0; i < base.data.length; i += 4) {
+				const delta = Math.max(
+					Math.abs(base.data[i] - compared.data[i]),
+					Math.abs(base.data[i + 1] - compared.data[i + 1]),
+					Math.abs(base.data[i + 2] - compared.data[i + 2]),
+					Math.abs(base.data[i + 3] - compared.data[i + 3])
+				);
+				if (delta > COMPARE_DIFF_THRESHOLD) {
+					diff.data[i] = 255;
+					diff.data[i + 1] = 0;
+					diff.data[i + 2] = 80;
+					diff.data[i + 3] = 200;
+					changed++;
+				}
+			}
+			context.putImageData(diff, 0, 0);
+			
+			const percent = changed / (width * height) * 100;
+			this.compareDiffLabel.setText(changed === 0 ? 'Identical' : `${percent < 0.1 ? '<0.1' : percent.toFixed(1)}% differs`);
+		} catch (error) {
+			// External images without CORS headers can be shown but not read
+			console.error('Failed to compare image pixels:', error);
+			this.showNotice("Can't read the pixels of these images");
+			this.compareShowDiff = false;
+			this.compareDiffToggle.checked = false;
+		}
+	}
+
+	private getImagePixels(image: HTMLImageElement, width: number, height: number): ImageData {
+		const canvas = document.createElement('canvas');
+		canvas.width = width;
+		canvas.height = height;
+		const context = canvas.getContext('2d')!;
+		
+		// Letterbox like object-fit: contain, so pixels line up with what is on screen
+		const fit = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+		const drawWidth = image.naturalWidth * fit;
+		const drawHeight = image.naturalHeight * fit;
+		context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+		
+		return context.getImageData(0, 0, width, height);
+	}
+
+	// Navigator minimap
+	private createMinimap() {
+		this.minimapElement = this.contentEl.createDiv('image-viewer-minimap');
+		this.minimapCanvas = this.minimapElement.createEl('canvas', { cls: 'minimap-image' });
+		this.minimapViewport = this.minimapElement.createDiv('minimap-viewport');
+		
+		this.minimapElement.addEventListener('pointerdown', (e) => this.startMinimapDrag(e));
+		this.minimapElement.addEventListener('pointermove', (e) => this.updateMinimapDrag(e));
+		this.minimapElement.addEventListener('pointerup', () => this.minimapDrag = null);
+		this.minimapElement.addEventListener('pointercancel', () => this.minimapDrag = null);
+		// Keep clicks from reaching the background, which closes the modal
+		this.minimapElement.addEventListener('click', (e) => e.stopPropagation());
+	}
+
+	private updateMinimap() {
+		if (!this.minimapElement) return;
+		
+		const imageRect = this.imageElement.getBoundingClientRect();
+		const viewRect = this.containerElement.getBoundingClientRect();
+		const overflows = imageRect.width > viewRect.width + 1 || imageRect.height > viewRect.height + 1;
+		const visible = overflows && this.originalImageWidth > 0 && this.imageElement.complete;
+		this.minimapElement.toggleClass('is-visible', visible);
+		if (!visible) return;
+		
+		this.drawMinimapImage();
+		
+		// Intersect the viewport with the image and map it into minimap pixels
+		const ratio = this.minimapCanvas.width / imageRect.width;
+		const left = Math.max(viewRect.left, imageRect.left) - imageRect.left;
+		const top = Math.max(viewRect.top, imageRect.top) - imageRect.top;
+		const right = Math.min(viewRect.right, imageRect.right) - imageRect.left;
+		const bottom = Math.min(viewRect.bottom, imageRect.bottom) - imageRect.top;
+		
+		this.minimapViewport.style.left = `${left * ratio}px`;
+		this.minimapViewport.style.top = `${top * ratio}px`;
+		this.minimapViewport.style.width = `${Math.max(0, right - left) * ratio}px`;
+		this.minimapViewport.style.height = `${Math.max(0, bottom - top) * ratio}px`;
+	}
+
+	private drawMinimapImage() {
+		// Only redraw when the image or its orientation changed
+		const key = `${this.imageSrc}|${this.getNormalizedRotation()}|${this.flipHorizontal}|${this.flipVertical}`;
+		if (this.minimapKey === key) return;
+		this.minimapKey = key;
+		
+		// Draw the image the way it is turned on screen
+		const width = this.originalImageWidth;
+		const height = this.originalImageHeight;
+		const size = MINIMAP_SIZE / Math.max(width, height);
+		this.minimapCanvas.width = Math.max(1, Math.round((this.isQuarterTurned() ? height : width) * size));
+		this.minimapCanvas.height = Math.max(1, Math.round((this.isQuarterTurned() ? width : height) * size));
+		
+		const context = this.minimapCanvas.getContext('2d')!;
+		context.save();
+		context.translate(this.minimapCanvas.width / 2, this.minimapCanvas.height / 2);
+		context.rotate(this.currentRotation * Math.PI / 180);
+		context.scale(this.getFlipX(), this.getFlipY());
+		context.drawImage(this.imageElement, -width * size / 2, -height * size / 2, width * size, height * size);
+		context.restore();
+	}
+
+	private startMinimapDrag(e: PointerEvent) {
+		e.preventDefault();
+		e.stopPropagation();
+		
+		const imageRect = this.imageElement.getBoundingClientRect();
+		const ratio = this.minimapCanvas.width / imageRect.width;
+		
+		// Clicking outside the rectangle first centres the view on that spot
+		if (e.target !== this.minimapViewport) {
+			const canvasRect = this.minimapCanvas.getBoundingClientRect();
+			const viewRect = this.containerElement.getBoundingClientRect();
+			const targetX = imageRect.left + (e.clientX - canvasRect.left) / ratio;
+			const targetY = imageRect.top + (e.clientY - canvasRect.top) / ratio;
+			this.imageOffsetX += viewRect.left + viewRect.width / 2 - targetX;
+			this.imageOffsetY += viewRect.top + viewRect.height / 2 - targetY;
+			this.updateImageTransform();
+		}
+		
+		this.minimapElement.setPointerCapture(e.pointerId);
+		this.minimapDrag = {
+			startX: e.clientX,
+			startY: e.clientY,
+			startOffsetX: this.imageOffsetX,
+			startOffsetY: this.imageOffsetY,
+			ratio
+		};
+	}
+
+	private updateMinimapDrag(e: PointerEvent) {
+		if (!this.minimapDrag) return;
+		
+		// Moving the rectangle right means the image moves left
+		const drag = this.minimapDrag;
+		this.imageOffsetX = drag.startOffsetX - (e.clientX - drag.startX) / drag.ratio;
+		this.imageOffsetY = drag.startOffsetY - (e.clientY - drag.startY) / drag.ratio;
+		this.updateImageTransform();
+	}
+
+	private setLoadingState(state: 'loading' | 'loaded' | 'error') {
+		this.containerElement.toggleClass('is-loading', state === 'loading');
+		this.containerElement.toggleClass('has-load-error', state === 'error');
+		
+		if (state === 'error') {
+			this.loadErrorElement.setText(`Couldn't load ${this.getImageDisplayName(this.imageSrc)}`);
+		}
+	}
+
+	private preloadAdjacentImages() {
+		const count = this.allImages.length;
+		if (count <= 1) return;
+		
+		// Nearest first, so the next and previous images win when bandwidth is short
+		for (let distance = 1; distance <= PRELOAD_RADIUS; distance++) {
+			this.imageCache.preload(this.allImages[(this.currentImageIndex + distance) % count]);
+			this.imageCache.preload(this.allImages[(this.currentImageIndex - distance + count) % count]);
+		}
+	}
+
+	private startDrag(e: MouseEvent) {
+		e.preventDefault();
+		e.stopPropagation();
+		
+		this.isDragging = true;
+		this.dragData = {
+			startX: e.clientX,
+			startY: e.clientY,
+			startOffsetX: this.imageOffsetX,
+			startOffsetY: this.imageOffsetY
+		};
+
+		// Use the source document for event listeners to handle popout windows correctly
+		this.sourceDocument.addEventListener('mousemove', this.handleDrag.bind(this));
+		this.sourceDocument.addEventListener('mouseup', this.stopDrag.bind(this));
+		
+		this.imageElement.style.cursor = 'grabbing';
+	}
+
+	private handleDrag(e: MouseEvent) {
+		if (!this.isDragging || !this.dragData) return;
+		
+		const deltaX = e.clientX - this.dragData.startX;
+		const deltaY = e.clientY - this.dragData.startY;
+		
+		this.imageOffsetX = this.dragData.startOffsetX + deltaX;
+		this.imageOffsetY = this.dragData.startOffsetY + deltaY;
+		
+		this.updateImageTransform();
+	}
+
+	private stopDrag() {
+		this.isDragging = false;
 		this.dragData = null;
 		
-		// Remove event listeners from the correct document
-		this.sourceDocument.removeEventListener('mousemove', this.handleDrag.bind(this));
-		this.sourceDocument.removeEventListener('mouseup', this.stopDrag.bind(this));
+		// Remove event listeners from the correct document
+		this.sourceDocument.removeEventListener('mousemove', this.handleDrag.bind(this));
+		this.sourceDocument.removeEventListener('mouseup', this.stopDrag.bind(this));
+		
+		this.imageElement.style.cursor = 'grab';
+	}
+
+	private updateImageScale() {
+		this.updateImageTransform();
+	}
+
+	private updateImageTransform() {
+		// Side by side comparison centres the main image in the left half
+		const shiftX = this.compareMode === 'side-by-side' ? -this.containerElement.getBoundingClientRect().width / 4 : 0;
+		this.imageElement.style.transform = this.getImageTransform(shiftX);
+		this.updateAnimationLayout();
+		this.updateZoomReadout();
+		this.updateCompareView();
+		
+		// Sync canvas with image transform
+		setTimeout(() => this.syncCanvasWithImage(), 0);
+	}
+
+	private getImageTransform(shiftX: number = 0): string {
+		return `translate(${this.imageOffsetX + shiftX}px, ${this.imageOffsetY}px) scale(${this.currentScale}) rotate(${this.currentRotation}deg) scale(${this.getFlipX()}, ${this.getFlipY()})`;
+	}
+
+	// Zoom and gesture helpers
+	private updateZoomReadout() {
+		if (!this.zoomReadout) return;
+		
+		const displayScale = this.getDisplayScale();
+		if (!this.zoomEditScope) {
+			this.zoomReadout.setText(`${Math.round(displayScale * 100)}%`);
+		}
+		// Blocky pixels read better than blurry ones once each pixel is several screen pixels wide
+		const crisp = this.settings.crispPixels && displayScale >= CRISP_PIXELS_SCALE;
+		this.containerElement.toggleClass('crisp-pixels', crisp);
+		this.comparePane?.toggleClass('crisp-pixels', crisp);
+	}
+
+	private openZoomMenu(e: MouseEvent) {
+		const menu = new Menu();
+		const presets: { title: string; preset: ZoomPreset; key: string }[] = [
+			{ title: 'Fit', preset: 'fit', key: '0' },
+			{ title: 'Fit width', preset: 'fit-width', key: '3' },
+			{ title: 'Fit height', preset: 'fit-height', key: '4' },
+			{ title: '100% (actual pixels)', preset: 'actual', key: '1' },
+			{ title: '200%', preset: 'double', key: '2' }
+		];
+		presets.forEach(({ title, preset, key }) => {
+			menu.addItem(item => item
+				.setTitle(`${title}  (${key})`)
+				.onClick(() => this.applyZoomPreset(preset)));
+		});
+		menu.addSeparator();
+		menu.addItem(item => item
+			.setTitle('Enter zoom level…')
+			.onClick(() => this.editZoomPercent()));
+		menu.showAtMouseEvent(e);
+	}
+
+	private applyZoomPreset(preset: ZoomPreset) {
+		if (this.originalImageWidth === 0 || this.originalImageHeight === 0) return;
+		
+		switch (preset) {
+			case 'actual':
+				this.setDisplayScale(1);
+				return;
+			case 'double':
+				this.setDisplayScale(2);
+				return;
+		}
+		
+		// Fit presets work on the image as it is turned on screen
+		const width = this.isQuarterTurned() ? this.originalImageHeight : this.originalImageWidth;
+		const height = this.isQuarterTurned() ? this.originalImageWidth : this.originalImageHeight;
+		const viewport = this.getFitViewport();
+		const scaleX = viewport.width / width;
+		const scaleY = viewport.height / height;
+		const displayScale = preset === 'fit-width' ? scaleX : preset === 'fit-height' ? scaleY : Math.min(scaleX, scaleY);
+		
+		this.centerImageInViewport();
+		this.currentScale = Math.max(MIN_ZOOM_SCALE, Math.min(MAX_ZOOM_SCALE, this.displayToCurrentScale(displayScale)));
+		this.updateImageTransform();
+	}
+
+	private setDisplayScale(displayScale: number) {
+		const rect = this.containerElement.getBoundingClientRect();
+		this.zoomAt(this.displayToCurrentScale(displayScale), rect.left + rect.width / 2, rect.top + rect.height / 2);
+	}
+
+	private displayToCurrentScale(displayScale: number): number {
+		// currentScale is relative to the laid-out size, which can differ from the natural size
+		const layoutWidth = this.imageElement.offsetWidth || this.originalImageWidth;
+		return displayScale * this.originalImageWidth / layoutWidth;
+	}
+
+	private editZoomPercent() {
+		if (this.zoomEditScope) return;
+		
+		const readout = this.zoomReadout;
+		readout.empty();
+		const input = readout.createEl('input', { type: 'text', cls: 'zoom-input' });
+		input.value = Math.round(this.getDisplayScale() * 100).toString();
+		
+		// Keep viewer shortcuts away from the field while typing
+		const editScope = new Scope();
+		const finish = (apply: boolean) => {
+			if (this.zoomEditScope !== editScope) return;
+			this.app.keymap.popScope(editScope);
+			this.zoomEditScope = null;
+			
+			const percent = parseFloat(input.value.replace('%', ''));
+			if (apply && isFinite(percent) && percent > 0) {
+				this.setDisplayScale(percent / 100);
+			}
+			this.updateZoomReadout();
+		};
+		editScope.register([], 'Enter', () => {
+			finish(true);
+			return false;
+		});
+		editScope.register([], 'Escape', () => {
+			finish(false);
+			return false;
+		});
+		this.app.keymap.pushScope(editScope);
+		this.zoomEditScope = editScope;
+		
+		input.addEventListener('blur', () => finish(true));
+		input.addEventListener('click', (e) => e.stopPropagation());
+		input.focus();
+		input.select();
+	}
+
+	private getFitScale(): number {
+		if (this.originalImageWidth === 0 || this.originalImageHeight === 0) return 1;
+		
+		const viewport = this.getFitViewport();
+		
+		// Don't scale up small images, but scale down large ones
+		return Math.min(1, viewport.width / this.originalImageWidth, viewport.height / this.originalImageHeight);
+	}
+
+	private getFitViewport(): { width: number; height: number } {
+		// Side by side comparison gives each image half the width
+		const width = this.compareMode === 'side-by-side' ? window.innerWidth / 2 : window.innerWidth;
+		return { width, height: window.innerHeight - this.controlsHeight }; // Account for controls
+	}
+
+	private zoomAt(newScale: number, clientX: number, clientY: number) {
+		const scale = Math.max(MIN_ZOOM_SCALE, Math.min(MAX_ZOOM_SCALE, newScale));
+		const ratio = scale / this.currentScale;
+		
+		// Keep the image point under the cursor where it is; rotation doesn't change this
+		const rect = this.imageElement.getBoundingClientRect();
+		const centerX = rect.left + rect.width / 2;
+		const centerY = rect.top + rect.height / 2;
+		this.imageOffsetX += (clientX - centerX) * (1 - ratio);
+		this.imageOffsetY += (clientY - centerY) * (1 - ratio);
+		
+		this.currentScale = scale;
+		this.updateImageTransform();
+	}
+
+	private handleWheel(e: WheelEvent) {
+		e.preventDefault();
+		
+		// Lines and pages come from mouse wheels on some platforms; normalise them to pixels
+		const deltaY = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaMode === 2 ? e.deltaY * 400 : e.deltaY;
+		// Trackpad pinches arrive as ctrl+wheel with small deltas, so they need a stronger response
+		const sensitivity = e.ctrlKey ? PINCH_ZOOM_SENSITIVITY : this.settings.zoomIncrement / 100;
+		this.zoomAt(this.currentScale * Math.exp(-deltaY * sensitivity), e.clientX, e.clientY);
+	}
+
+	private setupTouchGestures() {
+		const onPointerDown = (e: PointerEvent) => {
+			if (e.pointerType !== 'touch' || this.currentMode !== 'view') return;
+			
+			this.touchPointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+			this.startTouchGesture();
+		};
+		
+		const onPointerMove = (e: PointerEvent) => {
+			if (!this.touchPointers.has(e.pointerId)) return;
+			
+			this.touchPointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+			this.updateTouchGesture();
+			e.preventDefault();
+		};
+		
+		const endPointer = (e: PointerEvent) => {
+			if (!this.touchPointers.has(e.pointerId)) return;
+			
+			const wasSingle = this.touchPointers.size === 1;
+			this.touchPointers.delete(e.pointerId);
+			if (wasSingle) {
+				this.finishTouchGesture(e, e.type === 'pointerup');
+			} else {
+				// Carry on with whatever fingers are left
+				this.startTouchGesture();
+			}
+		};
+		
+		// The side by side pane takes gestures over the right half
+		[this.containerElement, this.comparePane].forEach(element => {
+			element.addEventListener('pointerdown', onPointerDown);
+			element.addEventListener('pointermove', onPointerMove);
+			element.addEventListener('pointerup', endPointer);
+			element.addEventListener('pointercancel', endPointer);
+		});
+	}
+
+	private startTouchGesture() {
+		const points = Array.from(this.touchPointers.values());
+		const rect = this.imageElement.getBoundingClientRect();
+		const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+		
+		this.touchGesture = {
+			startPoint: this.getTouchMidpoint(points),
+			startDistance: points.length > 1 ? Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y) : 0,
+			startScale: this.currentScale,
+			startOffsetX: this.imageOffsetX,
+			startOffsetY: this.imageOffsetY,
+			startCenter: center,
+			startTime: Date.now(),
+			pointerCount: points.length,
+			// Pinches never count as taps or swipes
+			moved: points.length > 1
+		};
+	}
+
+	private updateTouchGesture() {
+		const gesture = this.touchGesture;
+		if (!gesture) return;
+		
+		const points = Array.from(this.touchPointers.values());
+		const midpoint = this.getTouchMidpoint(points);
+		const dx = midpoint.x - gesture.startPoint.x;
+		const dy = midpoint.y - gesture.startPoint.y;
+		if (Math.hypot(dx, dy) > TAP_SLOP) {
+			gesture.moved = true;
+		}
+		
+		if (points.length > 1 && gesture.startDistance > 0) {
+			// Pinch to zoom around the fingers while the midpoint pans
+			const distance = Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+			const scale = Math.max(MIN_ZOOM_SCALE, Math.min(MAX_ZOOM_SCALE, gesture.startScale * distance / gesture.startDistance));
+			const ratio = scale / gesture.startScale;
+			const centerX = midpoint.x - (gesture.startPoint.x - gesture.startCenter.x) * ratio;
+			const centerY = midpoint.y - (gesture.startPoint.y - gesture.startCenter.y) * ratio;
+			
+			this.currentScale = scale;
+			this.imageOffsetX = gesture.startOffsetX + centerX - gesture.startCenter.x;
+			this.imageOffsetY = gesture.startOffsetY + centerY - gesture.startCenter.y;
+			this.updateImageTransform();
+		} else if (!this.isAtFitScale()) {
+			// One finger pans a zoomed-in image; at fit size it swipes between images instead
+			this.imageOffsetX = gesture.startOffsetX + dx;
+			this.imageOffsetY = gesture.startOffsetY + dy;
+			this.updateImageTransform();
+		}
+	}
+
+	private finishTouchGesture(e: PointerEvent, completed: boolean) {
+		const gesture = this.touchGesture;
+		this.touchGesture = null;
+		if (!gesture || !completed || gesture.pointerCount > 1) return;
+		
+		const dx = e.clientX - gesture.startPoint.x;
+		const dy = e.clientY - gesture.startPoint.y;
+		
+		if (!gesture.moved) {
+			// Two quick taps in the same spot toggle between fit and actual size
+			const now = Date.now();
+			const lastTap = this.lastTap;
+			if (lastTap && now - lastTap.time < DOUBLE_TAP_DELAY && Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < TAP_SLOP * 2) {
+				this.lastTap = null;
+				this.toggleFitAndActualSize(e.clientX, e.clientY);
+			} else {
+				this.lastTap = { x: e.clientX, y: e.clientY, time: now };
+			}
+			return;
+		}
+		
+		const isSwipe = this.isAtFitScale() &&
+			Math.abs(dx) > SWIPE_DISTANCE &&
+			Math.abs(dx) > Math.abs(dy) * 1.5 &&
+			Date.now() - gesture.startTime < SWIPE_MAX_DURATION;
+		if (isSwipe) {
+			if (dx < 0) {
+				this.nextImage();
+			} else {
+				this.previousImage();
+			}
+		}
+	}
+
+	private getTouchMidpoint(points: AnnotationPoint[]): AnnotationPoint {
+		if (points.length === 0) return { x: 0, y: 0 };
+		if (points.length === 1) return { ...points[0] };
+		return { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+	}
+
+	private isAtFitScale(): boolean {
+		return this.currentScale <= this.getFitScale() * 1.01;
+	}
+
+	private toggleFitAndActualSize(clientX: number, clientY: number) {
+		if (this.isAtFitScale() && this.getFitScale() < 1) {
+			this.zoomAt(1, clientX, clientY);
+		} else {
+			this.setInitialModalSize();
+		}
+	}
+
+	private setInitialModalSize() {
+		if (this.originalImageWidth === 0 || this.originalImageHeight === 0) return;
+		
+		// Scale to fit image within viewport while maintaining aspect ratio
+		this.currentScale = this.getFitScale();
+		
+		// Center image in viewport
+		this.centerImageInViewport();
+		
+		this.updateImageTransform();
+		this.setFullscreenModal();
+	}
+
+	private centerImageInViewport() {
+		// Center image using CSS flexbox only, no manual offset needed
+		this.imageOffsetX = 0;
+		this.imageOffsetY = 0;
+	}
+
+	private setFullscreenModal() {
+		// Set modal to fullscreen with transparent background
+		const modalContent = this.contentEl;
+		const modalContainer = modalContent.parentElement;
+		
+		// Force fullscreen dimensions
+		modalContent.style.width = '100vw';
+		modalContent.style.height = '100vh';
+		modalContent.style.left = '0px';
+		modalContent.style.top = '0px';
+		modalContent.style.background = 'transparent';
+		modalContent.style.border = 'none';
+		modalContent.style.borderRadius = '0';
+		modalContent.style.boxShadow = 'none';
+		
+		// Also set parent modal container
+		if (modalContainer) {
+			modalContainer.style.width = '100vw';
+			modalContainer.style.height = '100vh';
+			modalContainer.style.left = '0px';
+			modalContainer.style.top = '0px';
+			modalContainer.style.background = 'transparent';
+			modalContainer.style.border = 'none';
+			modalContainer.style.borderRadius = '0';
+			modalContainer.style.boxShadow = 'none';
+			modalContainer.style.maxWidth = 'none';
+			modalContainer.style.maxHeight = 'none';
+		}
+	}
+
+	// centerModal no longer needed - modal is always fullscreen
+
+
+	private async copyImage(visibleOnly = false, confirmed = false) {
+		// Animations can't go on the clipboard, so ask whether the frame or a link is wanted
+		if (this.animationDecoder && !visibleOnly && !confirmed) {
+			new CopyAnimationModal(this.app, (currentFrame) => {
+				if (currentFrame) {
+					this.copyImage(false, true);
+				} else {
+					this.copyImageLink();
+				}
+			}).open();
+			return;
+		}
+		
+		try {
+			const blob = await this.getClipboardBlob(visibleOnly);
+			
+			// Copy to clipboard
+			await navigator.clipboard.write([
+				new ClipboardItem({
+					[blob.type]: blob
+				})
+			]);
+			
+			// Show success message
+			this.showNotice(visibleOnly ? 'Visible area copied to clipboard' : 'Image copied to clipboard');
+		} catch (error) {
+			console.error('Failed to copy image:', error);
+			this.showNotice('Failed to copy image');
+		}
+	}
+
+	private async getClipboardBlob(visibleOnly: boolean): Promise<Blob> {
+		const isTransformed = this.annotations.length > 0 || this.hasOrientationChange() || this.animationDecoder !== null;
+		if (!visibleOnly && !isTransformed) {
+			// Untouched PNGs go out byte for byte
+			const original = await (await fetch(this.imageSrc)).blob();
+			if (original.type === 'image/png') return original;
+		}
+		
+		// Everything else is flattened to PNG, the only image type the clipboard reliably accepts
+		const rect = visibleOnly ? this.getVisibleImageRect() : null;
+		if (visibleOnly && !rect) {
+			throw new Error('The image is not visible');
+		}
+		return this.canvasToBlob(this.renderTransformedComposite(rect || undefined), 'image/png');
+	}
+
+	private getVisibleImageRect(): AnnotationBounds | null {
+		// Map the viewport corners into image pixels and keep the part that is inside the image
+		const containerRect = this.containerElement.getBoundingClientRect();
+		const corners = [
+			this.clientToImagePoint(containerRect.left, containerRect.top),
+			this.clientToImagePoint(containerRect.right, containerRect.top),
+			this.clientToImagePoint(containerRect.left, containerRect.bottom),
+			this.clientToImagePoint(containerRect.right, containerRect.bottom)
+		].map(point => this.clampToImage(point));
+		
+		const xs = corners.map(point => point.x);
+		const ys = corners.map(point => point.y);
+		const x = Math.min(...xs);
+		const y = Math.min(...ys);
+		const width = Math.max(...xs) - x;
+		const height = Math.max(...ys) - y;
+		return width >= 1 && height >= 1 ? { x, y, width, height } : null;
+	}
+
+	private getCurrentImageFile(): TFile | null {
+		return this.getFileForSource(this.imageSrc);
+	}
+
+	private getFileForSource(src: string): TFile | null {
+		// Map the resource URL back to its vault file, ignoring the cache-busting query
+		const path = src.split('?')[0];
+		let imageFile = this.getResourceFiles().get(path);
+		if (!imageFile && !/^(https?|data|blob):/i.test(path)) {
+			// May have been written since the map was built
+			this.resourceFiles = null;
+			imageFile = this.getResourceFiles().get(path);
+		}
+		return imageFile || null;
+	}
+
+	private getResourceFiles(): Map<string, TFile> {
+		if (!this.resourceFiles) {
+			this.resourceFiles = new Map();
+			this.app.vault.getFiles().forEach(file => {
+				this.resourceFiles?.set(this.app.vault.getResourcePath(file).split('?')[0], file);
+			});
+		}
+		return this.resourceFiles;
+	}
+
+	private getEncodingType(extension: string): string | null {
+		switch (extension.toLowerCase()) {
+			case 'png':
+				return 'image/png';
+			case 'jpg':
+			case 'jpeg':
+				return 'image/jpeg';
+			case 'webp':
+				return 'image/webp';
+			default:
+				return null;
+		}
+	}
+
+	private openSaveDialog() {
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) {
+			this.showNotice('Only images stored in the vault can be saved');
+			return;
+		}
+
+		new SaveImageModal(this.app, {
+			title: 'Save annotated image',
+			description: `Flatten the drawing onto "${imageFile.name}" at its original resolution.`,
+			copySuffix: '-annotated',
+			canOverwrite: this.getEncodingType(imageFile.extension) !== null
+		}, (mode) => {
+			this.writeImageToVault(imageFile, this.renderComposite(), mode, '-annotated');
+		}).open();
+	}
+
+	private async writeImageToVault(imageFile: TFile, canvas: HTMLCanvasElement, mode: SaveImageMode, copySuffix: string): Promise<boolean> {
+		try {
+			if (mode === 'overwrite') {
+				const blob = await this.canvasToBlob(canvas, this.getEncodingType(imageFile.extension) || 'image/png');
+				await this.app.vault.modifyBinary(imageFile, await blob.arrayBuffer());
+
+				// The drawing is part of the file now, so drop the annotations and show the new pixels
+				this.annotations = [];
+				this.resetHistory();
+				await this.saveAnnotations();
+				this.renderAnnotations();
+				this.replaceCurrentImageSource(this.app.vault.getResourcePath(imageFile));
+				this.showNotice(`Saved ${imageFile.name}`);
+				return true;
+			}
+
+			const copyPath = this.getAvailableSiblingPath(imageFile, copySuffix, 'png');
+			const blob = await this.canvasToBlob(canvas, 'image/png');
+			const copyFile = await this.app.vault.createBinary(copyPath, await blob.arrayBuffer());
+
+			if (mode === 'copy-and-relink') {
+				const relinked = await this.relinkEmbeds(imageFile, copyFile);
+				// Keep the original's sidecar; the copy already carries the drawing
+				this.annotations = [];
+				this.resetHistory();
+				this.renderAnnotations();
+				this.replaceCurrentImageSource(this.app.vault.getResourcePath(copyFile));
+				this.showNotice(`Saved ${copyFile.name} and updated ${relinked} embed${relinked === 1 ? '' : 's'}`);
+			} else {
+				this.showNotice(`Saved ${copyFile.name}`);
+			}
+			return true;
+		} catch (error) {
+			console.error('Failed to save image:', error);
+			this.showNotice('Failed to save image');
+			return false;
+		}
+	}
+
+	private renderComposite(filter?: string): HTMLCanvasElement {
+		// SVGs without an intrinsic size report 0, so fall back to their laid-out size
+		const width = this.imageElement.naturalWidth || this.imageElement.offsetWidth;
+		const height = this.imageElement.naturalHeight || this.imageElement.offsetHeight;
+
+		const output = document.createElement('canvas');
+		output.width = width;
+		output.height = height;
+		const context = output.getContext('2d')!;
+		// Adjustments change the image only, never the annotations on top
+		if (filter) context.filter = filter;
+		context.drawImage(this.getBaseImage(), 0, 0, width, height);
+		context.filter = 'none';
+
+		// Wipe redacted areas first so no original pixel survives underneath, even where the patch is translucent
+		this.annotations.forEach(annotation => {
+			if (annotation.type === 'redact') {
+				const bounds = this.getAnnotationBounds(annotation);
+				context.clearRect(bounds.x, bounds.y, bounds.width, bounds.height);
+			}
+		});
+
+		// Render annotations on their own layer so erasers don't cut into the image
+		const layer = document.createElement('canvas');
+		layer.width = width;
+		layer.height = height;
+		this.drawAnnotations(layer.getContext('2d')!, this.annotations);
+		context.drawImage(layer, 0, 0);
+
+		return output;
+	}
+
+	private renderTransformedComposite(rect?: AnnotationBounds, filter?: string): HTMLCanvasElement {
+		const composite = this.renderComposite(filter);
+		rect = rect || { x: 0, y: 0, width: composite.width, height: composite.height };
+		const x = Math.round(rect.x);
+		const y = Math.round(rect.y);
+		const width = Math.max(1, Math.round(rect.width));
+		const height = Math.max(1, Math.round(rect.height));
+		
+		const output = document.createElement('canvas');
+		output.width = this.isQuarterTurned() ? height : width;
+		output.height = this.isQuarterTurned() ? width : height;
+		
+		// Bake the on-screen rotation and flip into the result
+		const context = output.getContext('2d')!;
+		context.translate(output.width / 2, output.height / 2);
+		context.rotate(this.getNormalizedRotation() * Math.PI / 180);
+		context.scale(this.getFlipX(), this.getFlipY());
+		context.drawImage(composite, x, y, width, height, -width / 2, -height / 2, width, height);
+		
+		return output;
+	}
+
+	private canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+		return new Promise((resolve, reject) => {
+			canvas.toBlob((blob) => {
+				if (blob) {
+					resolve(blob);
+				} else {
+					reject(new Error(`Could not encode canvas as ${type}`));
+				}
+			}, type, 0.92);
+		});
+	}
+
+	private getAvailableSiblingPath(imageFile: TFile, suffix: string, extension: string): string {
+		const folder = imageFile.parent && imageFile.parent.path !== '/' ? imageFile.parent.path : '';
+		return this.getAvailablePath(folder, imageFile.basename + suffix, extension);
+	}
+
+	private getAvailablePath(folder: string, basename: string, extension: string): string {
+		const prefix = folder ? folder + '/' : '';
+		let candidate = `${prefix}${basename}.${extension}`;
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(candidate)) {
+			candidate = `${prefix}${basename} ${counter}.${extension}`;
+			counter++;
+		}
+		return candidate;
+	}
+
+	private async relinkEmbeds(oldFile: TFile, newFile: TFile): Promise<number> {
+		const note = this.sourceFile;
+		if (!note) return 0;
+
+		const targets = this.getEmbedsOfFile(note, oldFile);
+		if (targets.length === 0) return 0;
+
+		const content = await this.app.vault.read(note);
+		let updated = content;
+		let relinked = 0;
+
+		// Replace from the end of the note so earlier offsets stay valid
+		targets
+			.sort((a, b) => b.position.start.offset - a.position.start.offset)
+			.forEach(embed => {
+				const { start, end } = embed.position;
+				const original = updated.slice(start.offset, end.offset);
+				// Skip embeds whose text moved since the metadata cache was built
+				if (original !== embed.original) return;
+
+				const replacement = this.retargetEmbed(original, embed.link, newFile, note.path);
+				updated = updated.slice(0, start.offset) + replacement + updated.slice(end.offset);
+				relinked++;
+			});
+
+		if (relinked > 0) {
+			await this.app.vault.modify(note, updated);
+		}
+		return relinked;
+	}
+
+	private getEmbedsOfFile(note: TFile, file: TFile): EmbedCache[] {
+		const embeds = this.app.metadataCache.getFileCache(note)?.embeds || [];
+		return embeds.filter(embed =>
+			this.app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), note.path) === file
+		);
+	}
+
+	private retargetEmbed(original: string, link: string, newFile: TFile, sourcePath: string): string {
+		const linktext = this.app.metadataCache.fileToLinktext(newFile, sourcePath, false);
+
+		if (original.startsWith('![[')) {
+			// Keep any |size or #subpath suffix, only swap the file part
+			return original.replace(getLinkpath(link), linktext);
+		}
+
+		// Markdown embeds keep their target URL-encoded
+		return original.replace(/^(!\[[^\]]*\]\()(<[^>]*>|[^\s)]+)/, (_match, prefix) => prefix + encodeURI(linktext));
+	}
+
+	private replaceCurrentImageSource(newSrc: string) {
+		this.imageSrc = newSrc;
+		this.imageElement.src = newSrc;
+		this.allImages[this.currentImageIndex] = newSrc;
+		this.refreshFilmstripThumbnail(this.currentImageIndex);
+	}
+
+	private showNotice(message: string) {
+		// Create temporary notice element
+		const notice = this.contentEl.createDiv('image-viewer-notice');
+		notice.textContent = message;
+		
+		setTimeout(() => {
+			notice.remove();
+		}, 2000);
+	}
+
+	private updateNavigationButtons(prevButton: HTMLButtonElement, nextButton: HTMLButtonElement) {
+		const hasMultipleImages = this.allImages.length > 1;
+		
+		console.log('Updating navigation buttons. Total images:', this.allImages.length);
+		console.log('Has multiple images:', hasMultipleImages);
+		console.log('All images:', this.allImages);
+		
+		if (hasMultipleImages) {
+			prevButton.style.opacity = '1';
+			prevButton.disabled = false;
+			nextButton.style.opacity = '1';
+			nextButton.disabled = false;
+		} else {
+			prevButton.style.opacity = '0.3';
+			prevButton.disabled = true;
+			nextButton.style.opacity = '0.3';
+			nextButton.disabled = true;
+		}
+		
+		console.log('Navigation buttons updated:', hasMultipleImages ? 'enabled' : 'disabled');
+	}
+
+	// Drawing-related methods
+	private syncCanvasWithImage() {
+		const imgRect = this.imageElement.getBoundingClientRect();
+		const containerRect = this.containerElement.getBoundingClientRect();
+		
+		// Set canvas size to match the displayed image size
+		this.canvasElement.width = imgRect.width;
+		this.canvasElement.height = imgRect.height;
+		this.canvasElement.style.width = imgRect.width + 'px';
+		this.canvasElement.style.height = imgRect.height + 'px';
+		
+		// Position canvas over the image
+		this.canvasElement.style.position = 'absolute';
+		this.canvasElement.style.left = (imgRect.left - containerRect.left) + 'px';
+		this.canvasElement.style.top = (imgRect.top - containerRect.top) + 'px';
+		this.canvasElement.style.pointerEvents = this.canvasAcceptsPointer() ? 'auto' : 'none';
+
+		// The annotation document is the source of truth, so redraw it for the new size
+		this.renderAnnotations();
+		this.updateMinimap();
+	}
+
+	private canvasAcceptsPointer(): boolean {
+		// Text mode listens on the container instead
+		return this.isStrokeMode() || this.isShapeMode() || this.currentMode === 'select' ||
+		       this.currentMode === 'crop' || this.currentMode === 'redact' || this.currentMode === 'marker' ||
+		       this.currentMode === 'inspect' || this.currentMode === 'measure';
+	}
+
+	private getDisplayScale(): number {
+		// Screen pixels per natural image pixel at the current zoom
+		if (this.originalImageWidth === 0) return 1;
+		return (this.imageElement.offsetWidth * this.currentScale) / this.originalImageWidth;
+	}
+
+	private clientToImagePoint(clientX: number, clientY: number): AnnotationPoint {
+		// The bounding box centre stays on the image centre under rotation
+		const imgRect = this.imageElement.getBoundingClientRect();
+		const dx = clientX - (imgRect.left + imgRect.width / 2);
+		const dy = clientY - (imgRect.top + imgRect.height / 2);
+
+		const angle = -this.currentRotation * Math.PI / 180;
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		const scale = this.getDisplayScale();
+
+		return {
+			x: this.getFlipX() * (dx * cos - dy * sin) / scale + this.originalImageWidth / 2,
+			y: this.getFlipY() * (dx * sin + dy * cos) / scale + this.originalImageHeight / 2
+		};
+	}
+
+	private imageToClientPoint(point: AnnotationPoint): AnnotationPoint {
+		// Inverse of clientToImagePoint
+		const imgRect = this.imageElement.getBoundingClientRect();
+		const scale = this.getDisplayScale();
+		const dx = this.getFlipX() * (point.x - this.originalImageWidth / 2) * scale;
+		const dy = this.getFlipY() * (point.y - this.originalImageHeight / 2) * scale;
+
+		const angle = this.currentRotation * Math.PI / 180;
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+
+		return {
+			x: imgRect.left + imgRect.width / 2 + dx * cos - dy * sin,
+			y: imgRect.top + imgRect.height / 2 + dx * sin + dy * cos
+		};
+	}
+
+	private renderAnnotations() {
+		const context = this.canvasContext;
+		context.setTransform(1, 0, 0, 1, 0, 0);
+		context.clearRect(0, 0, this.canvasElement.width, this.canvasElement.height);
+
+		if (this.originalImageWidth === 0 || this.originalImageHeight === 0) return;
+
+		// Map image pixels onto the rotated, flipped, zoomed overlay
+		const scale = this.getDisplayScale();
+		context.save();
+		context.translate(this.canvasElement.width / 2, this.canvasElement.height / 2);
+		context.rotate(this.currentRotation * Math.PI / 180);
+		context.scale(scale * this.getFlipX(), scale * this.getFlipY());
+		context.translate(-this.originalImageWidth / 2, -this.originalImageHeight / 2);
+
+		// The label being edited is shown by the inline editor instead
+		const editingId = this.textEditor?.existing?.id;
+		const annotations: Annotation[] = this.annotations.filter(annotation => annotation.id !== editingId);
+		if (this.activeStroke) annotations.push(this.activeStroke);
+		if (this.activeShape) annotations.push(this.activeShape);
+		if (this.activeRedaction) annotations.push(this.activeRedaction);
+		if (this.activeMeasurement) annotations.push(this.activeMeasurement);
+		this.drawAnnotations(context, annotations);
+
+		// Outline the selected object (screen only, never part of the saved image)
+		const selected = this.getSelectedAnnotation();
+		if (selected) {
+			const bounds = this.getAnnotationBounds(selected);
+			const padding = 4 / scale;
+			context.strokeStyle = '#4a9eff';
+			context.lineWidth = 1.5 / scale;
+			context.setLineDash([6 / scale, 4 / scale]);
+			context.strokeRect(bounds.x - padding, bounds.y - padding, bounds.width + padding * 2, bounds.height + padding * 2);
+		}
+
+		if (this.currentMode === 'crop') {
+			this.drawCropOverlay(context, scale);
+		}
+
+		context.restore();
+	}
+
+	private drawAnnotations(context: CanvasRenderingContext2D, annotations: Annotation[]) {
+		let markerNumber = 0;
+		annotations.forEach(annotation => {
+			if (annotation.type === 'redact') return;
+			context.save();
+
+			switch (annotation.type) {
+				case 'stroke':
+				case 'erase':
+				case 'highlight':
+					this.drawStroke(context, annotation);
+					break;
+				case 'text':
+					this.drawText(context, annotation);
+					break;
+				case 'shape':
+					this.drawShape(context, annotation);
+					break;
+				case 'marker':
+					this.drawMarker(context, annotation, ++markerNumber);
+					break;
+				case 'measure':
+					this.drawMeasurement(context, annotation);
+					break;
+			}
+
+			context.restore();
+		});
+
+		// Redactions sit underneath everything else so erasers can't cut holes into them
+		context.save();
+		context.globalCompositeOperation = 'destination-over';
+		annotations.forEach(annotation => {
+			if (annotation.type === 'redact') {
+				this.drawRedaction(context, annotation);
+			}
+		});
+		context.restore();
+	}
+
+	private drawStroke(context: CanvasRenderingContext2D, annotation: StrokeAnnotation) {
+		context.globalCompositeOperation = annotation.type === 'erase' ? 'destination-out' : 'source-over';
+		context.strokeStyle = annotation.color;
+		context.fillStyle = annotation.color;
+		context.lineWidth = annotation.width;
+		context.lineCap = 'round';
+		context.lineJoin = 'round';
+
+		// The whole stroke is one path, so overlapping parts don't darken
+		if (annotation.type === 'highlight') {
+			context.globalAlpha = 0.35;
+			context.lineCap = 'butt';
+		}
+
+		const [first, ...rest] = annotation.points;
+		if (!first) return;
+
+		if (rest.length === 0) {
+			// A single click leaves a dot
+			context.beginPath();
+			context.arc(first.x, first.y, annotation.width / 2, 0, Math.PI * 2);
+			context.fill();
+			return;
+		}
+
+		context.beginPath();
+		context.moveTo(first.x, first.y);
+		rest.forEach(point => context.lineTo(point.x, point.y));
+		context.stroke();
+	}
+
+	private drawText(context: CanvasRenderingContext2D, annotation: TextAnnotation) {
+		if (annotation.background) {
+			const bounds = this.getAnnotationBounds(annotation);
+			context.fillStyle = annotation.background;
+			context.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+		}
+		
+		const lineHeight = annotation.fontSize * TEXT_LINE_HEIGHT;
+		context.font = this.getTextFont(annotation);
+		context.fillStyle = annotation.color;
+		annotation.text.split('\n').forEach((line, index) => {
+			context.fillText(line, annotation.x, annotation.y + index * lineHeight);
+		});
+	}
+
+	private drawMarker(context: CanvasRenderingContext2D, annotation: MarkerAnnotation, number: number) {
+		context.beginPath();
+		context.arc(annotation.x, annotation.y, annotation.radius, 0, Math.PI * 2);
+		context.fillStyle = annotation.color;
+		context.fill();
+		context.lineWidth = annotation.radius * 0.15;
+		context.strokeStyle = '#ffffff';
+		context.stroke();
+		
+		// Shrink the digits a little once they no longer fit
+		const label = number.toString();
+		const fontSize = annotation.radius * (label.length > 1 ? 0.95 : 1.2);
+		context.font = `bold ${fontSize}px Arial`;
+		context.fillStyle = '#ffffff';
+		context.textAlign = 'center';
+		context.textBaseline = 'middle';
+		context.fillText(label, annotation.x, annotation.y);
+	}
+
+	private getTextFont(annotation: TextAnnotation): string {
+		return `${annotation.bold ? 'bold ' : ''}${annotation.fontSize}px Arial`;
+	}
+
+	private drawShape(context: CanvasRenderingContext2D, annotation: ShapeAnnotation) {
+		const { start, end } = annotation;
+		context.strokeStyle = annotation.color;
+		context.lineWidth = annotation.width;
+		context.lineCap = 'round';
+		context.lineJoin = 'round';
+		context.beginPath();
+
+		switch (annotation.shape) {
+			case 'line':
+				context.moveTo(start.x, start.y);
+				context.lineTo(end.x, end.y);
+				break;
+			case 'arrow': {
+				const angle = Math.atan2(end.y - start.y, end.x - start.x);
+				const headLength = annotation.width * 4 + 6;
+				const headAngle = Math.PI / 7;
+
+				// Stop the shaft at the base of the head so the tip stays sharp
+				context.moveTo(start.x, start.y);
+				context.lineTo(end.x - Math.cos(angle) * headLength * 0.8, end.y - Math.sin(angle) * headLength * 0.8);
+				context.stroke();
+
+				context.fillStyle = annotation.color;
+				context.beginPath();
+				context.moveTo(end.x, end.y);
+				context.lineTo(end.x - headLength * Math.cos(angle - headAngle), end.y - headLength * Math.sin(angle - headAngle));
+				context.lineTo(end.x - headLength * Math.cos(angle + headAngle), end.y - headLength * Math.sin(angle + headAngle));
+				context.closePath();
+				context.fill();
+				return;
+			}
+			case 'rectangle':
+				context.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+				break;
+			case 'ellipse':
+				context.ellipse(
+					(start.x + end.x) / 2,
+					(start.y + end.y) / 2,
+					Math.abs(end.x - start.x) / 2,
+					Math.abs(end.y - start.y) / 2,
+					0, 0, Math.PI * 2
+				);
+				break;
+		}
+
+		context.stroke();
+	}
+
+	private getAnnotationBounds(annotation: Annotation): AnnotationBounds {
+		switch (annotation.type) {
+			case 'text': {
+				const lines = annotation.text.split('\n');
+				this.canvasContext.save();
+				this.canvasContext.font = this.getTextFont(annotation);
+				const textWidth = Math.max(...lines.map(line => this.canvasContext.measureText(line).width));
+				this.canvasContext.restore();
+
+				// fillText anchors on the baseline; labels with a fill get some breathing room
+				const padding = annotation.background ? annotation.fontSize * 0.25 : 0;
+				const height = lines.length * annotation.fontSize * TEXT_LINE_HEIGHT;
+				return {
+					x: annotation.x - padding,
+					y: annotation.y - annotation.fontSize - padding,
+					width: textWidth + padding * 2,
+					height: height + padding * 2
+				};
+			}
+			case 'marker':
+				return {
+					x: annotation.x - annotation.radius,
+					y: annotation.y - annotation.radius,
+					width: annotation.radius * 2,
+					height: annotation.radius * 2
+				};
+			case 'redact':
+			case 'measure':
+				return {
+					x: Math.min(annotation.start.x, annotation.end.x),
+					y: Math.min(annotation.start.y, annotation.end.y),
+					width: Math.abs(annotation.end.x - annotation.start.x),
+					height: Math.abs(annotation.end.y - annotation.start.y)
+				};
+			case 'shape': {
+				const half = annotation.width / 2;
+				const x = Math.min(annotation.start.x, annotation.end.x) - half;
+				const y = Math.min(annotation.start.y, annotation.end.y) - half;
+				return {
+					x,
+					y,
+					width: Math.abs(annotation.end.x - annotation.start.x) + annotation.width,
+					height: Math.abs(annotation.end.y - annotation.start.y) + annotation.width
+				};
+			}
+			default: {
+				const half = annotation.width / 2;
+				const xs = annotation.points.map(point => point.x);
+				const ys = annotation.points.map(point => point.y);
+				const x = Math.min(...xs) - half;
+				const y = Math.min(...ys) - half;
+				return { x, y, width: Math.max(...xs) + half - x, height: Math.max(...ys) + half - y };
+			}
+		}
+	}
+
+	private getDistanceToSegment(point: AnnotationPoint, a: AnnotationPoint, b: AnnotationPoint): number {
+		const dx = b.x - a.x;
+		const dy = b.y - a.y;
+		const lengthSquared = dx * dx + dy * dy;
+		const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+		return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+	}
+
+	private hitTestAnnotation(annotation: Annotation, point: AnnotationPoint, tolerance: number): boolean {
+		switch (annotation.type) {
+			case 'erase':
+				// Eraser strokes are invisible and can only be undone
+				return false;
+			case 'stroke':
+			case 'highlight':
+				return annotation.points.some((current, index) => {
+					const previous = annotation.points[index - 1] || current;
+					return this.getDistanceToSegment(point, previous, current) <= annotation.width / 2 + tolerance;
+				});
+			case 'marker':
+				return Math.hypot(point.x - annotation.x, point.y - annotation.y) <= annotation.radius + tolerance;
+			case 'shape':
+				if (annotation.shape === 'line' || annotation.shape === 'arrow') {
+					return this.getDistanceToSegment(point, annotation.start, annotation.end) <= annotation.width / 2 + tolerance;
+				}
+				break;
+			case 'measure':
+				if (annotation.shape === 'line') {
+					return this.getDistanceToSegment(point, annotation.start, annotation.end) <= annotation.fontSize + tolerance;
+				}
+				break;
+		}
+
+		const bounds = this.getAnnotationBounds(annotation);
+		return point.x >= bounds.x - tolerance && point.x <= bounds.x + bounds.width + tolerance &&
+		       point.y >= bounds.y - tolerance && point.y <= bounds.y + bounds.height + tolerance;
+	}
+
+	private findAnnotationAt(point: AnnotationPoint): Annotation | null {
+		const tolerance = 6 / this.getDisplayScale();
+		// Topmost (most recently drawn) object wins
+		for (let i = this.annotations.length - 1; i >= 0; i--) {
+			if (this.hitTestAnnotation(this.annotations[i], point, tolerance)) {
+				return this.annotations[i];
+			}
+		}
+		return null;
+	}
+
+	private getSelectedAnnotation(): Annotation | null {
+		if (!this.selectedAnnotationId) return null;
+		return this.annotations.find(annotation => annotation.id === this.selectedAnnotationId) || null;
+	}
+
+	private selectAnnotationAt(e: MouseEvent) {
+		const point = this.clientToImagePoint(e.clientX, e.clientY);
+		const hit = this.findAnnotationAt(point);
+		this.selectedAnnotationId = hit ? hit.id : null;
+		this.renderAnnotations();
+
+		// Pressing on an object also starts moving it
+		if (hit) {
+			this.moveData = {
+				id: hit.id,
+				startPoint: point,
+				original: this.cloneAnnotations([hit])[0],
+				snapshot: this.cloneAnnotations(this.annotations),
+				moved: false
+			};
+		}
+
+		e.preventDefault();
+		e.stopPropagation();
+	}
+
+	private moveSelectedAnnotation(e: MouseEvent) {
+		if (!this.moveData) return;
+
+		const point = this.clientToImagePoint(e.clientX, e.clientY);
+		const dx = point.x - this.moveData.startPoint.x;
+		const dy = point.y - this.moveData.startPoint.y;
+		const moved = this.translateAnnotation(this.moveData.original, dx, dy);
+
+		this.annotations = this.annotations.map(annotation => annotation.id === this.moveData?.id ? moved : annotation);
+		this.moveData.moved = true;
+		this.renderAnnotations();
+	}
+
+	private stopMovingAnnotation() {
+		if (!this.moveData) return;
+
+		const { moved, snapshot } = this.moveData;
+		this.moveData = null;
+		if (moved) {
+			this.recordHistory(snapshot);
+			this.commitAnnotations();
+		}
+	}
+
+	private translateAnnotation(annotation: Annotation, dx: number, dy: number): Annotation {
+		const offset = (point: AnnotationPoint) => ({ x: point.x + dx, y: point.y + dy });
+
+		switch (annotation.type) {
+			case 'text':
+			case 'marker':
+				return { ...annotation, x: annotation.x + dx, y: annotation.y + dy };
+			case 'shape':
+			case 'redact':
+			case 'measure':
+				return { ...annotation, start: offset(annotation.start), end: offset(annotation.end) };
+			default:
+				return { ...annotation, points: annotation.points.map(offset) };
+		}
+	}
+
+	private editAnnotationAt(e: MouseEvent) {
+		const hit = this.findAnnotationAt(this.clientToImagePoint(e.clientX, e.clientY));
+		if (hit && hit.type === 'text') {
+			e.preventDefault();
+			e.stopPropagation();
+			this.openTextEditor(hit);
+		}
+	}
+
+	private deleteSelectedAnnotation() {
+		const selected = this.getSelectedAnnotation();
+		if (!selected) return;
+
+		this.recordHistory();
+		this.annotations = this.annotations.filter(annotation => annotation.id !== selected.id);
+		this.selectedAnnotationId = null;
+		this.commitAnnotations();
+	}
+
+	private createAnnotationId(): string {
+		return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+	}
+
+	private cloneAnnotations(annotations: Annotation[]): Annotation[] {
+		return JSON.parse(JSON.stringify(annotations));
+	}
+
+	private recordHistory(snapshot: Annotation[] = this.cloneAnnotations(this.annotations)) {
+		// Snapshot the document before every change
+		this.undoStack.push(snapshot);
+		if (this.undoStack.length > MAX_ANNOTATION_HISTORY) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+	}
+
+	private resetHistory() {
+		this.undoStack = [];
+		this.redoStack = [];
+		this.selectedAnnotationId = null;
+	}
+
+	private undo() {
+		const previous = this.undoStack.pop();
+		if (!previous) {
+			this.showNotice('Nothing to undo');
+			return;
+		}
+
+		this.redoStack.push(this.cloneAnnotations(this.annotations));
+		this.annotations = previous;
+		this.commitAnnotations();
+	}
+
+	private redo() {
+		const next = this.redoStack.pop();
+		if (!next) {
+			this.showNotice('Nothing to redo');
+			return;
+		}
+
+		this.undoStack.push(this.cloneAnnotations(this.annotations));
+		this.annotations = next;
+		this.commitAnnotations();
+	}
+
+	private commitAnnotations() {
+		// Drop a selection that no longer exists, then redraw and persist
+		if (!this.getSelectedAnnotation()) {
+			this.selectedAnnotationId = null;
+		}
+		this.renderAnnotations();
+		this.saveAnnotations();
+	}
+
+	private async loadAnnotations() {
+		const requestedSrc = this.imageSrc;
+		this.annotations = [];
+		this.activeStroke = null;
+		this.activeShape = null;
+		this.activeRedaction = null;
+		this.activeMeasurement = null;
+		this.measureScale = null;
+		this.resetHistory();
+		this.renderAnnotations();
+		this.updateMeasurePanel();
+
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) return;
+
+		const adapter = this.app.vault.adapter;
+		const sidecarPath = imageFile.path + ANNOTATION_SIDECAR_SUFFIX;
+		try {
+			if (!(await adapter.exists(sidecarPath))) return;
+			const data = JSON.parse(await adapter.read(sidecarPath)) as AnnotationDocument;
+
+			// The user may have moved on to another image while we were reading
+			if (this.imageSrc !== requestedSrc) return;
+
+			if (!data || !Array.isArray(data.annotations)) {
+				console.error('Ignoring malformed annotation sidecar:', sidecarPath);
+				return;
+			}
+
+			// Older sidecars were written before objects had ids
+			this.annotations = data.annotations.map(annotation =>
+				annotation.id ? annotation : { ...annotation, id: this.createAnnotationId() }
+			);
+			this.measureScale = data.measureScale || null;
+			this.renderAnnotations();
+			this.updateMeasurePanel();
+		} catch (error) {
+			console.error('Failed to load annotations:', error);
+		}
+	}
+
+	private async saveAnnotations() {
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) return;
+
+		const adapter = this.app.vault.adapter;
+		const sidecarPath = imageFile.path + ANNOTATION_SIDECAR_SUFFIX;
+		try {
+			// Don't leave empty sidecars behind
+			if (this.annotations.length === 0 && !this.measureScale) {
+				if (await adapter.exists(sidecarPath)) {
+					await adapter.remove(sidecarPath);
+				}
+				return;
+			}
+
+			const data: AnnotationDocument = {
+				version: ANNOTATION_FORMAT_VERSION,
+				imageWidth: this.originalImageWidth,
+				imageHeight: this.originalImageHeight,
+				annotations: this.annotations,
+				measureScale: this.measureScale
+			};
+			await adapter.write(sidecarPath, JSON.stringify(data, null, '\t'));
+		} catch (error) {
+			console.error('Failed to save annotations:', error);
+			this.showNotice('Failed to save annotations');
+		}
+	}
+
+	private toggleMode(mode: ViewerMode) {
+		console.log('toggleMode called, current mode:', this.currentMode);
+		this.currentMode = this.currentMode === mode ? 'view' : mode;
+		console.log('new mode:', this.currentMode);
+		this.updateModeUI();
+		this.syncCanvasWithImage();
+	}
+
+	private isShapeMode(): boolean {
+		return this.currentMode === 'arrow' || this.currentMode === 'line' ||
+		       this.currentMode === 'rectangle' || this.currentMode === 'ellipse';
+	}
+
+	private isStrokeMode(): boolean {
+		return this.currentMode === 'draw' || this.currentMode === 'highlight' || this.currentMode === 'erase';
+	}
+
+	private clearDrawing() {
+		console.log('clearDrawing called');
+		if (this.annotations.length === 0) return;
+
+		// Clearing is undoable like any other edit
+		this.recordHistory();
+		this.annotations = [];
+		this.activeStroke = null;
+		this.activeShape = null;
+		this.activeRedaction = null;
+		this.commitAnnotations();
+		this.showNotice('Drawing cleared');
+	}
+
+	private updateModeUI() {
+		// Activate the button whose data-mode matches the current mode
+		this.contentEl.querySelectorAll('.drawing-controls [data-mode]').forEach(button => {
+			button.classList.toggle('active', button.getAttribute('data-mode') === this.currentMode);
+		});
+		
+		// Reset container classes, then add the one for the current mode
+		Array.from(this.containerElement.classList)
+			.filter(cls => cls.endsWith('-mode'))
+			.forEach(cls => this.containerElement.classList.remove(cls));
+		if (this.currentMode !== 'view') {
+			this.containerElement.classList.add(`${this.currentMode}-mode`);
+		}
+
+		// Selection only makes sense while selecting
+		if (this.currentMode !== 'select' && this.selectedAnnotationId) {
+			this.selectedAnnotationId = null;
+			this.renderAnnotations();
+		}
+
+		if (this.currentMode !== 'inspect') {
+			this.hideInspector();
+		}
+
+		// Leaving measure mode drops a measurement that wasn't kept
+		if (this.currentMode !== 'measure') {
+			this.activeMeasurement = null;
+		}
+		this.updateMeasurePanel();
+
+		// Leaving crop mode drops the crop selection
+		if (this.currentMode !== 'crop') {
+			this.cropRect = null;
+			this.cropDrag = null;
+		}
+		this.updateCropPanel();
+		
+		// Update canvas pointer events
+		this.canvasElement.style.pointerEvents = this.canvasAcceptsPointer() ? 'auto' : 'none';
+	}
+
+	private setupDrawingEvents() {
+		// Canvas drawing events
+		this.canvasElement.addEventListener('mousedown', (e) => {
+			if (this.currentMode === 'draw') {
+				this.startDrawing(e, 'stroke');
+			} else if (this.currentMode === 'highlight') {
+				this.startDrawing(e, 'highlight');
+			} else if (this.isShapeMode()) {
+				this.startShape(e);
+			} else if (this.currentMode === 'text') {
+				this.addTextAtPosition(e);
+			} else if (this.currentMode === 'erase') {
+				this.startErasing(e);
+			} else if (this.currentMode === 'select') {
+				this.selectAnnotationAt(e);
+			} else if (this.currentMode === 'crop') {
+				this.startCropDrag(e);
+			} else if (this.currentMode === 'redact') {
+				this.startRedaction(e);
+			} else if (this.currentMode === 'marker') {
+				this.addStepMarker(e);
+			} else if (this.currentMode === 'inspect') {
+				this.pickInspectedColor(e);
+			} else if (this.currentMode === 'measure') {
+				this.startMeasurement(e);
+			}
+		});
+
+		// Double-click a label to edit it in place
+		this.canvasElement.addEventListener('dblclick', (e) => {
+			if (this.currentMode === 'select') {
+				this.editAnnotationAt(e);
+			}
+		});
+		
+		// Also add text event to container for better coverage
+		this.containerElement.addEventListener('click', (e) => {
+			console.log('Container clicked, mode:', this.currentMode, 'target:', e.target);
+			if (this.currentMode === 'text' && (e.target === this.imageElement || e.target === this.canvasElement)) {
+				console.log('Text mode click detected');
+				this.addTextAtPosition(e);
+			}
+		});
+		
+		// Add mousedown event to container for erase mode
+		this.containerElement.addEventListener('mousedown', (e) => {
+			if (this.currentMode === 'erase' && (e.target === this.imageElement || e.target === this.canvasElement)) {
+				console.log('Erase mode mousedown detected');
+				this.startErasing(e);
+			}
+		});
+
+		this.canvasElement.addEventListener('mousemove', (e) => {
+			if ((this.currentMode === 'draw' || this.currentMode === 'highlight') && this.isDrawing) {
+				this.draw(e);
+			} else if (this.currentMode === 'erase' && this.isDrawing) {
+				this.erase(e);
+			} else if (this.isShapeMode() && this.isDrawing) {
+				this.updateShape(e);
+			} else if (this.currentMode === 'select' && this.moveData) {
+				this.moveSelectedAnnotation(e);
+			} else if (this.currentMode === 'crop' && this.cropDrag) {
+				this.updateCropDrag(e);
+			} else if (this.currentMode === 'redact' && this.isDrawing) {
+				this.updateRedaction(e);
+			} else if (this.currentMode === 'inspect') {
+				this.updateInspector(e);
+			} else if (this.currentMode === 'measure' && this.isDrawing) {
+				this.updateMeasurement(e);
+			}
+		});
+
+		this.canvasElement.addEventListener('mouseup', () => {
+			if (this.isStrokeMode()) {
+				this.stopDrawing();
+			} else if (this.isShapeMode()) {
+				this.stopShape();
+			} else if (this.currentMode === 'select') {
+				this.stopMovingAnnotation();
+			} else if (this.currentMode === 'crop') {
+				this.stopCropDrag();
+			} else if (this.currentMode === 'redact') {
+				this.stopRedaction();
+			} else if (this.currentMode === 'measure') {
+				this.stopMeasurement();
+			}
+		});
+
+		this.canvasElement.addEventListener('mouseleave', () => {
+			if (this.isStrokeMode()) {
+				this.stopDrawing();
+			} else if (this.isShapeMode()) {
+				this.stopShape();
+			} else if (this.currentMode === 'select') {
+				this.stopMovingAnnotation();
+			} else if (this.currentMode === 'redact') {
+				this.stopRedaction();
+			} else if (this.currentMode === 'inspect') {
+				this.hideInspector();
+			} else if (this.currentMode === 'measure') {
+				this.stopMeasurement();
+			}
+		});
+	}
+
+	private startDrawing(e: MouseEvent, type: 'stroke' | 'highlight') {
+		this.isDrawing = true;
 		
-		this.imageElement.style.cursor = 'grab';
+		// Widths are stored in image pixels so strokes keep their size relative to the image
+		const lineWidth = type === 'highlight' ? this.drawingLineWidth * 4 : this.drawingLineWidth;
+		this.activeStroke = {
+			id: this.createAnnotationId(),
+			type: type,
+			points: [this.clientToImagePoint(e.clientX, e.clientY)],
+			color: this.drawingColor,
+			width: lineWidth / this.getDisplayScale()
+		};
+		this.renderAnnotations();
 	}
 
-	private updateImageScale() {
-		this.updateImageTransform();
+	private draw(e: MouseEvent) {
+		if (!this.isDrawing || !this.activeStroke) return;
+		
+		const point = this.clientToImagePoint(e.clientX, e.clientY);
+		if (this.activeStroke.type === 'highlight' && e.shiftKey) {
+			// Shift turns the highlighter into a straight marker
+			const start = this.activeStroke.points[0];
+			this.activeStroke.points = [start, this.constrainShapeEnd('line', start, point)];
+		} else {
+			this.activeStroke.points.push(point);
+		}
+		this.renderAnnotations();
 	}
 
-	private updateImageTransform() {
-		const transform = `translate(${this.imageOffsetX}px, ${this.imageOffsetY}px) scale(${this.currentScale}) rotate(${this.currentRotation}deg)`;
-		this.imageElement.style.transform = transform;
+	private stopDrawing() {
+		this.isDrawing = false;
+		if (!this.activeStroke) return;
 		
-		// Sync canvas with image transform
-		setTimeout(() => this.syncCanvasWithImage(), 0);
+		this.recordHistory();
+		this.annotations.push(this.activeStroke);
+		this.activeStroke = null;
+		this.commitAnnotations();
 	}
 
-	private setInitialModalSize() {
-		if (this.originalImageWidth === 0 || this.originalImageHeight === 0) return;
+	private startShape(e: MouseEvent) {
+		if (!this.isShapeMode()) return;
+		this.isDrawing = true;
 		
-		// Calculate scale to fit image within viewport while maintaining aspect ratio
-		const viewportWidth = window.innerWidth;
-		const viewportHeight = window.innerHeight - this.controlsHeight; // Account for controls
+		const start = this.clientToImagePoint(e.clientX, e.clientY);
+		this.activeShape = {
+			id: this.createAnnotationId(),
+			type: 'shape',
+			shape: this.currentMode as ShapeTool,
+			start: start,
+			end: { ...start },
+			color: this.drawingColor,
+			width: this.drawingLineWidth / this.getDisplayScale()
+		};
 		
-		const scaleX = viewportWidth / this.originalImageWidth;
-		const scaleY = viewportHeight / this.originalImageHeight;
+		e.preventDefault();
+		e.stopPropagation();
+	}
+
+	private updateShape(e: MouseEvent) {
+		if (!this.isDrawing || !this.activeShape) return;
 		
-		// Use the smaller scale to ensure the entire image fits
-		const maxScale = Math.min(scaleX, scaleY);
+		const point = this.clientToImagePoint(e.clientX, e.clientY);
+		this.activeShape.end = e.shiftKey
+			? this.constrainShapeEnd(this.activeShape.shape, this.activeShape.start, point)
+			: point;
+		this.renderAnnotations();
+	}
+
+	private stopShape() {
+		this.isDrawing = false;
+		const shape = this.activeShape;
+		this.activeShape = null;
+		if (!shape) return;
 		
-		// Don't scale up small images, but scale down large ones
-		this.currentScale = Math.min(1, maxScale);
+		// Ignore plain clicks that didn't drag out a shape
+		const minimumSize = 3 / this.getDisplayScale();
+		if (Math.hypot(shape.end.x - shape.start.x, shape.end.y - shape.start.y) < minimumSize) {
+			this.renderAnnotations();
+			return;
+		}
 		
-		// Center image in viewport
-		this.centerImageInViewport();
+		this.recordHistory();
+		this.annotations.push(shape);
+		this.commitAnnotations();
+	}
+
+	private constrainShapeEnd(tool: ShapeTool, start: AnnotationPoint, end: AnnotationPoint): AnnotationPoint {
+		const dx = end.x - start.x;
+		const dy = end.y - start.y;
 		
-		this.updateImageTransform();
-		this.setFullscreenModal();
+		if (tool === 'rectangle' || tool === 'ellipse') {
+			// Keep proportions square
+			const size = Math.max(Math.abs(dx), Math.abs(dy));
+			return {
+				x: start.x + (dx < 0 ? -size : size),
+				y: start.y + (dy < 0 ? -size : size)
+			};
+		}
+		
+		// Snap lines to 45° steps
+		const step = Math.PI / 4;
+		const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+		const length = Math.hypot(dx, dy);
+		return {
+			x: start.x + Math.cos(angle) * length,
+			y: start.y + Math.sin(angle) * length
+		};
 	}
 
-	private centerImageInViewport() {
-		// Center image using CSS flexbox only, no manual offset needed
-		this.imageOffsetX = 0;
-		this.imageOffsetY = 0;
+	private addTextAtPosition(e: MouseEvent) {
+		// Check if click is on canvas or image
+		if (e.target !== this.canvasElement && e.target !== this.imageElement) {
+			return; // Not on image or canvas
+		}
+		
+		// Prevent default to avoid interference
+		e.preventDefault();
+		e.stopPropagation();
+		
+		// Clicking an existing label re-opens it for editing
+		const point = this.clientToImagePoint(e.clientX, e.clientY);
+		const hit = this.findAnnotationAt(point);
+		if (hit && hit.type === 'text') {
+			this.openTextEditor(hit);
+		} else {
+			this.openTextEditor(null, point);
+		}
 	}
 
-	private setFullscreenModal() {
-		// Set modal to fullscreen with transparent background
-		const modalContent = this.contentEl;
-		const modalContainer = modalContent.parentElement;
+	private openTextEditor(existing: TextAnnotation | null, position?: AnnotationPoint) {
+		this.closeTextEditor(true);
 		
-		// Force fullscreen dimensions
-		modalContent.style.width = '100vw';
-		modalContent.style.height = '100vh';
-		modalContent.style.left = '0px';
-		modalContent.style.top = '0px';
-		modalContent.style.background = 'transparent';
-		modalContent.style.border = 'none';
-		modalContent.style.borderRadius = '0';
-		modalContent.style.boxShadow = 'none';
+		const anchor = existing ? { x: existing.x, y: existing.y } : position;
+		if (!anchor) return;
 		
-		// Also set parent modal container
-		if (modalContainer) {
-			modalContainer.style.width = '100vw';
-			modalContainer.style.height = '100vh';
-			modalContainer.style.left = '0px';
-			modalContainer.style.top = '0px';
-			modalContainer.style.background = 'transparent';
-			modalContainer.style.border = 'none';
-			modalContainer.style.borderRadius = '0';
-			modalContainer.style.boxShadow = 'none';
-			modalContainer.style.maxWidth = 'none';
-			modalContainer.style.maxHeight = 'none';
+		// Editing an existing label picks up its style in the settings panel
+		if (existing) {
+			this.textFontSize = Math.round(existing.fontSize * this.getDisplayScale());
+			this.textBold = !!existing.bold;
+			this.textBackgroundEnabled = !!existing.background;
+			if (existing.background) this.textBackgroundColor = existing.background;
+			this.drawingColor = existing.color;
+			this.syncTextSettingsUI();
 		}
+		
+		const element = this.containerElement.createEl('textarea', { cls: 'image-viewer-text-editor' });
+		element.value = existing ? existing.text : '';
+		element.placeholder = 'Type a label…';
+		
+		// Keep modal shortcuts (W, T, Escape...) away from the text being typed
+		const editorScope = new Scope();
+		editorScope.register([], 'Escape', () => {
+			this.closeTextEditor(false);
+			return false;
+		});
+		editorScope.register(['Mod'], 'Enter', () => {
+			this.closeTextEditor(true);
+			return false;
+		});
+		this.app.keymap.pushScope(editorScope);
+		
+		this.textEditor = { element, existing, anchor, scope: editorScope };
+		this.updateTextEditorStyle();
+		this.renderAnnotations();
+		
+		element.addEventListener('input', () => this.updateTextEditorStyle());
+		element.addEventListener('blur', (e) => {
+			// Stay open while the label is being styled from the settings panel
+			const next = e.relatedTarget as HTMLElement | null;
+			if (next && next.closest('.drawing-settings-panel')) return;
+			this.closeTextEditor(true);
+		});
+		element.addEventListener('mousedown', (e) => e.stopPropagation());
+		element.addEventListener('click', (e) => e.stopPropagation());
+		
+		// Focus after the click that opened the editor has finished
+		setTimeout(() => element.focus(), 0);
 	}
 
-	// centerModal no longer needed - modal is always fullscreen
+	private updateTextEditorStyle() {
+		if (!this.textEditor) return;
+		
+		const { element, anchor } = this.textEditor;
+		const containerRect = this.containerElement.getBoundingClientRect();
+		const screenPoint = this.imageToClientPoint(anchor);
+		const lineCount = Math.max(1, element.value.split('\n').length);
+		
+		// The anchor is the first baseline, so lift the box by one font size
+		element.style.left = (screenPoint.x - containerRect.left) + 'px';
+		element.style.top = (screenPoint.y - containerRect.top - this.textFontSize) + 'px';
+		element.style.font = `${this.textBold ? 'bold ' : ''}${this.textFontSize}px Arial`;
+		element.style.lineHeight = TEXT_LINE_HEIGHT.toString();
+		element.style.color = this.drawingColor;
+		element.style.background = this.textBackgroundEnabled ? this.textBackgroundColor : 'rgba(0, 0, 0, 0.25)';
+		element.rows = lineCount;
+		
+		// Grow with the longest line
+		this.canvasContext.save();
+		this.canvasContext.font = element.style.font;
+		const longestLine = Math.max(...element.value.split('\n').map(line => this.canvasContext.measureText(line).width));
+		this.canvasContext.restore();
+		element.style.width = Math.max(80, longestLine + this.textFontSize) + 'px';
+	}
+
+	private closeTextEditor(commit: boolean) {
+		if (!this.textEditor) return;
+		
+		// Clear the editor first - removing the element fires blur again
+		const { element, existing, anchor, scope } = this.textEditor;
+		this.textEditor = null;
+		this.app.keymap.popScope(scope);
+		const text = element.value.replace(/\s+$/, '');
+		element.remove();
+		
+		if (!commit) {
+			this.renderAnnotations();
+			return;
+		}
+		
+		const scale = this.getDisplayScale();
+		// Don't let rounding in the size slider creep the stored size on every edit
+		const fontSize = existing && Math.round(existing.fontSize * scale) === this.textFontSize
+			? existing.fontSize
+			: this.textFontSize / scale;
+		
+		if (!text) {
+			// Emptying a label deletes it
+			if (existing) {
+				this.recordHistory();
+				this.annotations = this.annotations.filter(annotation => annotation.id !== existing.id);
+				this.commitAnnotations();
+			} else {
+				this.renderAnnotations();
+			}
+			return;
+		}
+		
+		const label: TextAnnotation = {
+			id: existing ? existing.id : this.createAnnotationId(),
+			type: 'text',
+			x: anchor.x,
+			y: anchor.y,
+			text: text,
+			color: this.drawingColor,
+			fontSize: fontSize,
+			bold: this.textBold,
+			background: this.textBackgroundEnabled ? this.textBackgroundColor : null
+		};
+		
+		this.recordHistory();
+		if (existing) {
+			this.annotations = this.annotations.map(annotation => annotation.id === existing.id ? label : annotation);
+		} else {
+			this.annotations.push(label);
+		}
+		this.commitAnnotations();
+	}
+
+	private startErasing(e: MouseEvent) {
+		console.log('startErasing called');
+		
+		// Check if click is on canvas or image
+		if (e.target !== this.canvasElement && e.target !== this.imageElement) {
+			return;
+		}
+		
+		this.isDrawing = true;
+		
+		// Erasing is recorded as a stroke that cuts through earlier annotations
+		this.activeStroke = {
+			id: this.createAnnotationId(),
+			type: 'erase',
+			points: [this.clientToImagePoint(e.clientX, e.clientY)],
+			color: '#000000',
+			width: (this.drawingLineWidth * 2) / this.getDisplayScale()
+		};
+		this.renderAnnotations();
+		
+		// Prevent default to avoid interference
+		e.preventDefault();
+		e.stopPropagation();
+	}
+
+	private erase(e: MouseEvent) {
+		if (!this.isDrawing || !this.activeStroke) return;
+		
+		// Erase along the path
+		this.activeStroke.points.push(this.clientToImagePoint(e.clientX, e.clientY));
+		this.renderAnnotations();
+	}
+
+	private addStepMarker(e: MouseEvent) {
+		const center = this.clampToImage(this.clientToImagePoint(e.clientX, e.clientY));
+		
+		this.recordHistory();
+		this.annotations.push({
+			id: this.createAnnotationId(),
+			type: 'marker',
+			x: center.x,
+			y: center.y,
+			// Badges scale with the text size so they match nearby labels
+			radius: this.textFontSize / this.getDisplayScale(),
+			color: this.drawingColor
+		});
+		this.commitAnnotations();
+		
+		e.preventDefault();
+		e.stopPropagation();
+	}
 
+	private getStepMarkerCount(): number {
+		return this.annotations.filter(annotation => annotation.type === 'marker').length;
+	}
 
-	private async copyImage() {
+	private async insertStepList() {
+		const count = this.getStepMarkerCount();
+		if (count === 0) {
+			this.showNotice('Place some step markers first');
+			return;
+		}
+		
+		const imageFile = this.getCurrentImageFile();
+		const note = this.sourceFile;
+		const embed = imageFile && note ? this.getEmbedsOfFile(note, imageFile)[0] : undefined;
+		if (!note || !embed) {
+			this.showNotice('Could not find this image in its note');
+			return;
+		}
+		
 		try {
-			// Convert image to blob
-			const response = await fetch(this.imageSrc);
-			const blob = await response.blob();
-			
-			// Copy to clipboard
-			await navigator.clipboard.write([
-				new ClipboardItem({
-					[blob.type]: blob
-				})
-			]);
+			const content = await this.app.vault.read(note);
+			if (content.slice(embed.position.start.offset, embed.position.end.offset) !== embed.original) {
+				this.showNotice('The note changed, please try again');
+				return;
+			}
 			
-			// Show success message
-			this.showNotice('Image copied to clipboard');
+			// Put the list on its own block right below the line holding the embed
+			const lineEnd = content.indexOf('\n', embed.position.end.offset);
+			const insertAt = lineEnd === -1 ? content.length : lineEnd;
+			const items = Array.from({ length: count }, (_, index) => `${index + 1}. `).join('\n');
+			await this.app.vault.modify(note, content.slice(0, insertAt) + '\n\n' + items + content.slice(insertAt));
+			this.showNotice(`Added ${count} step${count === 1 ? '' : 's'} to ${note.basename}`);
 		} catch (error) {
-			console.error('Failed to copy image:', error);
-			this.showNotice('Failed to copy image');
+			console.error('Failed to insert step list:', error);
+			this.showNotice('Failed to insert step list');
 		}
 	}
 
-	private showNotice(message: string) {
-		// Create temporary notice element
-		const notice = this.contentEl.createDiv('image-viewer-notice');
-		notice.textContent = message;
+	private startRedaction(e: MouseEvent) {
+		this.isDrawing = true;
 		
-		setTimeout(() => {
-			notice.remove();
-		}, 2000);
+		const start = this.clampToImage(this.clientToImagePoint(e.clientX, e.clientY));
+		this.activeRedaction = {
+			id: this.createAnnotationId(),
+			type: 'redact',
+			style: this.redactionStyle,
+			start: start,
+			end: { ...start },
+			color: this.drawingColor
+		};
+		
+		e.preventDefault();
+		e.stopPropagation();
 	}
 
-	private updateNavigationButtons(prevButton: HTMLButtonElement, nextButton: HTMLButtonElement) {
-		const hasMultipleImages = this.allImages.length > 1;
+	private updateRedaction(e: MouseEvent) {
+		if (!this.isDrawing || !this.activeRedaction) return;
 		
-		console.log('Updating navigation buttons. Total images:', this.allImages.length);
-		console.log('Has multiple images:', hasMultipleImages);
-		console.log('All images:', this.allImages);
+		this.activeRedaction.end = this.clampToImage(this.clientToImagePoint(e.clientX, e.clientY));
+		this.renderAnnotations();
+	}
+
+	private stopRedaction() {
+		this.isDrawing = false;
+		const redaction = this.activeRedaction;
+		this.activeRedaction = null;
+		if (!redaction) return;
 		
-		if (hasMultipleImages) {
-			prevButton.style.opacity = '1';
-			prevButton.disabled = false;
-			nextButton.style.opacity = '1';
-			nextButton.disabled = false;
-		} else {
-			prevButton.style.opacity = '0.3';
-			prevButton.disabled = true;
-			nextButton.style.opacity = '0.3';
-			nextButton.disabled = true;
+		// Ignore plain clicks that didn't drag out an area
+		const bounds = this.getAnnotationBounds(redaction);
+		if (bounds.width < 2 || bounds.height < 2) {
+			this.renderAnnotations();
+			return;
 		}
 		
-		console.log('Navigation buttons updated:', hasMultipleImages ? 'enabled' : 'disabled');
+		this.recordHistory();
+		this.annotations.push(redaction);
+		this.commitAnnotations();
 	}
 
-	// Drawing-related methods
-	private syncCanvasWithImage() {
-		const imgRect = this.imageElement.getBoundingClientRect();
-		const containerRect = this.containerElement.getBoundingClientRect();
+	private drawRedaction(context: CanvasRenderingContext2D, annotation: RedactAnnotation) {
+		const bounds = this.getAnnotationBounds(annotation);
+		if (bounds.width <= 0 || bounds.height <= 0) return;
+		
+		if (annotation.style === 'solid') {
+			context.fillStyle = annotation.color;
+			context.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+			return;
+		}
 		
-		// Store canvas content before resizing
-		const imageData = this.canvasContext.getImageData(0, 0, this.canvasElement.width, this.canvasElement.height);
-		const oldWidth = this.canvasElement.width;
-		const oldHeight = this.canvasElement.height;
+		const patch = this.getRedactionPatch(annotation.style, bounds);
+		if (patch) {
+			context.drawImage(patch, bounds.x, bounds.y, bounds.width, bounds.height);
+		}
+	}
+
+	private getRedactionPatch(style: 'pixelate' | 'blur', bounds: AnnotationBounds): HTMLCanvasElement | null {
+		if (!this.imageElement.complete || this.imageElement.naturalWidth === 0) return null;
 		
-		// Set canvas size to match the displayed image size
-		this.canvasElement.width = imgRect.width;
-		this.canvasElement.height = imgRect.height;
-		this.canvasElement.style.width = imgRect.width + 'px';
-		this.canvasElement.style.height = imgRect.height + 'px';
+		// Each animation frame needs its own patch, sampled from what renderComposite draws
+		const frame = this.animationDecoder ? `:${this.animationFrameIndex}` : '';
+		const key = `${style}:${bounds.x}:${bounds.y}:${bounds.width}:${bounds.height}${frame}`;
+		const cached = this.redactionCache.get(key);
+		if (cached) return cached;
+		
+		const width = Math.max(1, Math.round(bounds.width));
+		const height = Math.max(1, Math.round(bounds.height));
+		
+		// Shrink the area so fine detail like text is lost for good, then scale it back up
+		const blockSize = Math.max(8, Math.round(Math.min(width, height) / 6));
+		const small = document.createElement('canvas');
+		small.width = Math.max(1, Math.ceil(width / blockSize));
+		small.height = Math.max(1, Math.ceil(height / blockSize));
+		const smallContext = small.getContext('2d')!;
+		smallContext.imageSmoothingEnabled = true;
+		smallContext.imageSmoothingQuality = 'high';
+		smallContext.drawImage(this.getBaseImage(), bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, small.width, small.height);
+		
+		const patch = document.createElement('canvas');
+		patch.width = width;
+		patch.height = height;
+		const patchContext = patch.getContext('2d')!;
+		// Blocky for pixelate, smoothed for blur
+		patchContext.imageSmoothingEnabled = style === 'blur';
+		patchContext.imageSmoothingQuality = 'high';
+		patchContext.drawImage(small, 0, 0, width, height);
 		
-		// Restore canvas content if dimensions haven't changed significantly
-		if (Math.abs(oldWidth - imgRect.width) < 5 && Math.abs(oldHeight - imgRect.height) < 5) {
-			this.canvasContext.putImageData(imageData, 0, 0);
+		this.redactionCache.set(key, patch);
+		if (this.redactionCache.size > MAX_REDACTION_CACHE) {
+			const oldest = this.redactionCache.keys().next().value;
+			if (oldest !== undefined) this.redactionCache.delete(oldest);
 		}
+		return patch;
+	}
+
+	private hasRedactions(): boolean {
+		return this.annotations.some(annotation => annotation.type === 'redact');
+	}
+
+	// Crop-related methods
+	private createCropPanel() {
+		this.cropPanel = this.contentEl.createDiv('crop-panel');
+		this.cropPanel.style.display = 'none';
 		
-		// Position canvas over the image
-		this.canvasElement.style.position = 'absolute';
-		this.canvasElement.style.left = (imgRect.left - containerRect.left) + 'px';
-		this.canvasElement.style.top = (imgRect.top - containerRect.top) + 'px';
-		this.canvasElement.style.pointerEvents = (this.currentMode === 'draw' || this.currentMode === 'erase') ? 'auto' : 'none';
+		// Aspect ratio presets
+		const ratioGroup = this.cropPanel.createDiv('setting-group');
+		ratioGroup.createEl('label', { text: 'Aspect:' });
+		CROP_ASPECT_RATIOS.forEach(option => {
+			const button = ratioGroup.createEl('button', {
+				cls: 'crop-ratio-btn',
+				text: option.label
+			});
+			button.setAttribute('data-ratio', option.label);
+			button.addEventListener('click', () => this.setCropAspectRatio(option.ratio));
+		});
+		
+		this.cropSizeLabel = this.cropPanel.createDiv('crop-size');
+		
+		const actionGroup = this.cropPanel.createDiv('setting-group');
+		const applyButton = actionGroup.createEl('button', {
+			cls: 'mod-cta',
+			text: 'Apply crop (Enter)'
+		});
+		applyButton.addEventListener('click', () => this.applyCrop());
+		
+		const cancelButton = actionGroup.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.toggleMode('crop'));
+		
+		this.updateCropPanel();
+	}
+
+	private updateCropPanel() {
+		if (!this.cropPanel) return;
+		
+		this.cropPanel.style.display = this.currentMode === 'crop' ? '' : 'none';
+		
+		const activeLabel = CROP_ASPECT_RATIOS.find(option => option.ratio === this.cropAspectRatio)?.label;
+		this.cropPanel.querySelectorAll('.crop-ratio-btn').forEach(button => {
+			button.classList.toggle('active', button.getAttribute('data-ratio') === activeLabel);
+		});
+		
+		// Report the size of the result, which is turned with the view
+		if (this.cropRect) {
+			const width = Math.round(this.isQuarterTurned() ? this.cropRect.height : this.cropRect.width);
+			const height = Math.round(this.isQuarterTurned() ? this.cropRect.width : this.cropRect.height);
+			this.cropSizeLabel.textContent = `${width} × ${height} px`;
+		} else {
+			this.cropSizeLabel.textContent = 'Drag on the image to select an area';
+		}
 	}
 
-	private toggleDrawMode() {
-		this.currentMode = this.currentMode === 'draw' ? 'view' : 'draw';
-		this.updateModeUI();
-		this.syncCanvasWithImage();
+	private getNormalizedRotation(): number {
+		return ((this.currentRotation % 360) + 360) % 360;
 	}
 
-	private toggleTextMode() {
-		this.currentMode = this.currentMode === 'text' ? 'view' : 'text';
-		this.updateModeUI();
-		this.syncCanvasWithImage();
+	private isQuarterTurned(): boolean {
+		return this.getNormalizedRotation() % 180 === 90;
 	}
 
-	private toggleEraseMode() {
-		console.log('toggleEraseMode called, current mode:', this.currentMode);
-		this.currentMode = this.currentMode === 'erase' ? 'view' : 'erase';
-		console.log('new mode:', this.currentMode);
-		this.updateModeUI();
-		this.syncCanvasWithImage();
+	private getFlipX(): number {
+		return this.flipHorizontal ? -1 : 1;
 	}
 
-	private clearDrawing() {
-		console.log('clearDrawing called');
-		console.trace('clearDrawing call stack');
-		this.canvasContext.clearRect(0, 0, this.canvasElement.width, this.canvasElement.height);
-		this.showNotice('Drawing cleared');
+	private getFlipY(): number {
+		return this.flipVertical ? -1 : 1;
 	}
 
-	private updateModeUI() {
-		// Update button states
-		const drawBtn = this.contentEl.querySelector('.draw-btn') as HTMLButtonElement;
-		const textBtn = this.contentEl.querySelector('.text-btn') as HTMLButtonElement;
-		const eraseBtn = this.contentEl.querySelector('.erase-btn') as HTMLButtonElement;
+	private getImageSpaceCropRatio(): number | null {
+		// Ratios are picked for the rotated view; the crop rectangle lives in image space
+		if (this.cropAspectRatio === null) return null;
+		return this.isQuarterTurned() ? 1 / this.cropAspectRatio : this.cropAspectRatio;
+	}
+
+	private clampToImage(point: AnnotationPoint): AnnotationPoint {
+		return {
+			x: Math.max(0, Math.min(this.originalImageWidth, point.x)),
+			y: Math.max(0, Math.min(this.originalImageHeight, point.y))
+		};
+	}
+
+	private getCropRectFromPoints(anchor: AnnotationPoint, point: AnnotationPoint, ratio: number | null): AnnotationBounds {
+		let width = point.x - anchor.x;
+		let height = point.y - anchor.y;
 		
-		// Reset all button states
-		drawBtn?.classList.remove('active');
-		textBtn?.classList.remove('active');
-		eraseBtn?.classList.remove('active');
+		// Shrink the longer side so the rectangle never leaves the image
+		if (ratio !== null) {
+			if (Math.abs(width) > Math.abs(height) * ratio) {
+				width = (width < 0 ? -1 : 1) * Math.abs(height) * ratio;
+			} else {
+				height = (height < 0 ? -1 : 1) * Math.abs(width) / ratio;
+			}
+		}
 		
-		// Reset container classes
-		this.containerElement.classList.remove('draw-mode', 'text-mode', 'erase-mode');
+		return {
+			x: Math.min(anchor.x, anchor.x + width),
+			y: Math.min(anchor.y, anchor.y + height),
+			width: Math.abs(width),
+			height: Math.abs(height)
+		};
+	}
+
+	private getCropHandlePoints(rect: AnnotationBounds): Record<string, AnnotationPoint> {
+		const right = rect.x + rect.width;
+		const bottom = rect.y + rect.height;
+		const handles: Record<string, AnnotationPoint> = {
+			nw: { x: rect.x, y: rect.y },
+			ne: { x: right, y: rect.y },
+			sw: { x: rect.x, y: bottom },
+			se: { x: right, y: bottom }
+		};
 		
-		// Activate current mode button and add container class
-		if (this.currentMode === 'draw') {
-			drawBtn?.classList.add('active');
-			this.containerElement.classList.add('draw-mode');
-		} else if (this.currentMode === 'text') {
-			textBtn?.classList.add('active');
-			this.containerElement.classList.add('text-mode');
-		} else if (this.currentMode === 'erase') {
-			eraseBtn?.classList.add('active');
-			this.containerElement.classList.add('erase-mode');
+		// Edge handles would break a locked ratio
+		if (this.cropAspectRatio === null) {
+			handles.n = { x: rect.x + rect.width / 2, y: rect.y };
+			handles.s = { x: rect.x + rect.width / 2, y: bottom };
+			handles.w = { x: rect.x, y: rect.y + rect.height / 2 };
+			handles.e = { x: right, y: rect.y + rect.height / 2 };
 		}
-		
-		// Update canvas pointer events - allow draw, text, and erase modes
-		this.canvasElement.style.pointerEvents = (this.currentMode === 'draw' || this.currentMode === 'text' || this.currentMode === 'erase') ? 'auto' : 'none';
+		return handles;
 	}
 
-	private setupDrawingEvents() {
-		// Canvas drawing events
-		this.canvasElement.addEventListener('mousedown', (e) => {
-			if (this.currentMode === 'draw') {
-				this.startDrawing(e);
-			} else if (this.currentMode === 'text') {
-				this.addTextAtPosition(e);
-			} else if (this.currentMode === 'erase') {
-				this.startErasing(e);
-			}
-		});
+	private getCropHandleAt(point: AnnotationPoint): CropHandle {
+		if (!this.cropRect) return 'new';
 		
-		// Also add text event to container for better coverage
-		this.containerElement.addEventListener('click', (e) => {
-			console.log('Container clicked, mode:', this.currentMode, 'target:', e.target);
-			if (this.currentMode === 'text' && (e.target === this.imageElement || e.target === this.canvasElement)) {
-				console.log('Text mode click detected');
-				this.addTextAtPosition(e);
+		const tolerance = 10 / this.getDisplayScale();
+		const handles = this.getCropHandlePoints(this.cropRect);
+		for (const name of Object.keys(handles)) {
+			const handlePoint = handles[name];
+			if (Math.abs(point.x - handlePoint.x) <= tolerance && Math.abs(point.y - handlePoint.y) <= tolerance) {
+				return name as CropHandle;
 			}
-		});
+		}
 		
-		// Add mousedown event to container for erase mode
-		this.containerElement.addEventListener('mousedown', (e) => {
-			if (this.currentMode === 'erase' && (e.target === this.imageElement || e.target === this.canvasElement)) {
-				console.log('Erase mode mousedown detected');
-				this.startErasing(e);
-			}
-		});
-
-		this.canvasElement.addEventListener('mousemove', (e) => {
-			if (this.currentMode === 'draw' && this.isDrawing) {
-				this.draw(e);
-			} else if (this.currentMode === 'erase' && this.isDrawing) {
-				this.erase(e);
-			}
-		});
-
-		this.canvasElement.addEventListener('mouseup', () => {
-			if (this.currentMode === 'draw' || this.currentMode === 'erase') {
-				this.stopDrawing();
-			}
-		});
-
-		this.canvasElement.addEventListener('mouseleave', () => {
-			if (this.currentMode === 'draw' || this.currentMode === 'erase') {
-				this.stopDrawing();
-			}
-		});
+		const rect = this.cropRect;
+		const inside = point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+		return inside ? 'move' : 'new';
 	}
 
-	private startDrawing(e: MouseEvent) {
-		this.isDrawing = true;
-		const rect = this.canvasElement.getBoundingClientRect();
-		const x = e.clientX - rect.left;
-		const y = e.clientY - rect.top;
+	private startCropDrag(e: MouseEvent) {
+		const point = this.clampToImage(this.clientToImagePoint(e.clientX, e.clientY));
+		const handle = this.getCropHandleAt(point);
 		
-		this.lastDrawPoint = { x, y };
+		this.cropDrag = {
+			handle,
+			startPoint: point,
+			startRect: handle === 'new' || !this.cropRect ? { x: point.x, y: point.y, width: 0, height: 0 } : { ...this.cropRect }
+		};
 		
-		this.canvasContext.beginPath();
-		this.canvasContext.moveTo(x, y);
-		this.canvasContext.lineCap = 'round';
-		this.canvasContext.lineJoin = 'round';
-		this.canvasContext.strokeStyle = this.drawingColor;
-		this.canvasContext.lineWidth = this.drawingLineWidth;
+		e.preventDefault();
+		e.stopPropagation();
 	}
 
-	private draw(e: MouseEvent) {
-		if (!this.isDrawing || !this.lastDrawPoint) return;
+	private updateCropDrag(e: MouseEvent) {
+		if (!this.cropDrag) return;
+		
+		// The button was released outside the image
+		if (e.buttons === 0) {
+			this.stopCropDrag();
+			return;
+		}
 		
-		const rect = this.canvasElement.getBoundingClientRect();
-		const x = e.clientX - rect.left;
-		const y = e.clientY - rect.top;
+		const point = this.clampToImage(this.clientToImagePoint(e.clientX, e.clientY));
+		const { handle, startPoint, startRect } = this.cropDrag;
+		const ratio = this.getImageSpaceCropRatio();
+		const left = startRect.x;
+		const top = startRect.y;
+		const right = startRect.x + startRect.width;
+		const bottom = startRect.y + startRect.height;
 		
-		this.canvasContext.lineTo(x, y);
-		this.canvasContext.stroke();
+		switch (handle) {
+			case 'new':
+				this.cropRect = this.getCropRectFromPoints(startPoint, point, ratio);
+				break;
+			case 'move':
+				this.cropRect = {
+					...startRect,
+					x: Math.max(0, Math.min(this.originalImageWidth - startRect.width, left + point.x - startPoint.x)),
+					y: Math.max(0, Math.min(this.originalImageHeight - startRect.height, top + point.y - startPoint.y))
+				};
+				break;
+			case 'nw':
+				this.cropRect = this.getCropRectFromPoints({ x: right, y: bottom }, point, ratio);
+				break;
+			case 'ne':
+				this.cropRect = this.getCropRectFromPoints({ x: left, y: bottom }, point, ratio);
+				break;
+			case 'sw':
+				this.cropRect = this.getCropRectFromPoints({ x: right, y: top }, point, ratio);
+				break;
+			case 'se':
+				this.cropRect = this.getCropRectFromPoints({ x: left, y: top }, point, ratio);
+				break;
+			case 'n':
+				this.cropRect = this.getCropRectFromPoints({ x: left, y: bottom }, { x: right, y: point.y }, null);
+				break;
+			case 's':
+				this.cropRect = this.getCropRectFromPoints({ x: left, y: top }, { x: right, y: point.y }, null);
+				break;
+			case 'w':
+				this.cropRect = this.getCropRectFromPoints({ x: right, y: top }, { x: point.x, y: bottom }, null);
+				break;
+			case 'e':
+				this.cropRect = this.getCropRectFromPoints({ x: left, y: top }, { x: point.x, y: bottom }, null);
+				break;
+		}
 		
-		this.lastDrawPoint = { x, y };
+		this.renderAnnotations();
+		this.updateCropPanel();
 	}
 
-	private stopDrawing() {
-		this.isDrawing = false;
-		this.lastDrawPoint = null;
-		this.canvasContext.beginPath();
+	private stopCropDrag() {
+		if (!this.cropDrag) return;
+		this.cropDrag = null;
 		
-		// Reset composite operation back to normal
-		this.canvasContext.globalCompositeOperation = 'source-over';
+		// A click without a drag clears the selection
+		if (this.cropRect && (this.cropRect.width < 1 || this.cropRect.height < 1)) {
+			this.cropRect = null;
+		}
+		this.renderAnnotations();
+		this.updateCropPanel();
 	}
 
-	private addTextAtPosition(e: MouseEvent) {
-		let rect, x, y;
+	private setCropAspectRatio(ratio: number | null) {
+		this.cropAspectRatio = ratio;
 		
-		// Check if click is on canvas or image
-		if (e.target === this.canvasElement) {
-			rect = this.canvasElement.getBoundingClientRect();
-			x = e.clientX - rect.left;
-			y = e.clientY - rect.top;
-		} else if (e.target === this.imageElement) {
-			// Convert image coordinates to canvas coordinates
-			const imgRect = this.imageElement.getBoundingClientRect();
-			const canvasRect = this.canvasElement.getBoundingClientRect();
-			x = e.clientX - canvasRect.left;
-			y = e.clientY - canvasRect.top;
-		} else {
-			return; // Not on image or canvas
+		// Fit the current selection to the new ratio around its centre
+		const imageRatio = this.getImageSpaceCropRatio();
+		if (this.cropRect && imageRatio !== null) {
+			const rect = this.cropRect;
+			let width = rect.width;
+			let height = width / imageRatio;
+			if (height > rect.height) {
+				height = rect.height;
+				width = height * imageRatio;
+			}
+			this.cropRect = {
+				x: rect.x + (rect.width - width) / 2,
+				y: rect.y + (rect.height - height) / 2,
+				width,
+				height
+			};
 		}
 		
-		// Prevent default to avoid interference
-		e.preventDefault();
-		e.stopPropagation();
-		
-		// Create Obsidian text input modal
-		const textModal = new TextInputModal(this.app, (text: string) => {
-			if (text && text.trim()) {
-				this.canvasContext.font = '16px Arial';
-				this.canvasContext.fillStyle = this.drawingColor;
-				this.canvasContext.fillText(text, x, y);
-			}
-		});
-		textModal.open();
+		this.renderAnnotations();
+		this.updateCropPanel();
 	}
 
-	private startErasing(e: MouseEvent) {
-		console.log('startErasing called');
-		this.isDrawing = true;
+	private drawCropOverlay(context: CanvasRenderingContext2D, scale: number) {
+		if (!this.cropRect) return;
+		const rect = this.cropRect;
 		
-		let x, y;
-		// Check if click is on canvas or image
-		if (e.target === this.canvasElement) {
-			const rect = this.canvasElement.getBoundingClientRect();
-			x = e.clientX - rect.left;
-			y = e.clientY - rect.top;
-		} else if (e.target === this.imageElement) {
-			// Convert image coordinates to canvas coordinates
-			const imgRect = this.imageElement.getBoundingClientRect();
-			const canvasRect = this.canvasElement.getBoundingClientRect();
-			x = e.clientX - canvasRect.left;
-			y = e.clientY - canvasRect.top;
-		} else {
-			return;
-		}
+		context.save();
 		
-		this.lastDrawPoint = { x, y };
+		// Dim everything outside the selection
+		context.fillStyle = 'rgba(0, 0, 0, 0.55)';
+		context.beginPath();
+		context.rect(0, 0, this.originalImageWidth, this.originalImageHeight);
+		context.rect(rect.x, rect.y, rect.width, rect.height);
+		context.fill('evenodd');
 		
-		// Set up eraser
-		this.canvasContext.globalCompositeOperation = 'destination-out';
-		this.canvasContext.beginPath();
-		this.canvasContext.arc(x, y, this.drawingLineWidth * 2, 0, Math.PI * 2);
-		this.canvasContext.fill();
+		context.strokeStyle = '#ffffff';
+		context.lineWidth = 1.5 / scale;
+		context.strokeRect(rect.x, rect.y, rect.width, rect.height);
 		
-		// Prevent default to avoid interference
-		e.preventDefault();
-		e.stopPropagation();
+		const handleSize = 8 / scale;
+		context.fillStyle = '#ffffff';
+		const handles = this.getCropHandlePoints(rect);
+		Object.keys(handles).forEach(name => {
+			const point = handles[name];
+			context.fillRect(point.x - handleSize / 2, point.y - handleSize / 2, handleSize, handleSize);
+		});
+		
+		context.restore();
 	}
 
-	private erase(e: MouseEvent) {
-		if (!this.isDrawing || !this.lastDrawPoint) return;
-		
-		const rect = this.canvasElement.getBoundingClientRect();
-		const x = e.clientX - rect.left;
-		const y = e.clientY - rect.top;
+	private applyCrop() {
+		if (!this.cropRect) {
+			this.showNotice('Drag on the image to choose a crop area');
+			return;
+		}
 		
-		// Erase along the path
-		this.canvasContext.globalCompositeOperation = 'destination-out';
-		this.canvasContext.beginPath();
-		this.canvasContext.moveTo(this.lastDrawPoint.x, this.lastDrawPoint.y);
-		this.canvasContext.lineTo(x, y);
-		this.canvasContext.lineWidth = this.drawingLineWidth * 2;
-		this.canvasContext.lineCap = 'round';
-		this.canvasContext.stroke();
+		const imageFile = this.getCurrentImageFile();
+		if (!imageFile) {
+			this.showNotice('Only images stored in the vault can be cropped');
+			return;
+		}
 		
-		this.lastDrawPoint = { x, y };
+		const cropped = this.renderTransformedComposite(this.cropRect);
+		new SaveImageModal(this.app, {
+			title: 'Save cropped image',
+			description: `Crop "${imageFile.name}" to ${cropped.width} × ${cropped.height} pixels.${this.annotations.length > 0 ? ' Annotations are flattened into the cropped image.' : ''}`,
+			copySuffix: '-cropped',
+			canOverwrite: this.getEncodingType(imageFile.extension) !== null
+		}, async (mode) => {
+			const saved = await this.writeImageToVault(imageFile, cropped, mode, '-cropped');
+			if (!saved) return;
+			
+			// The viewer now shows the cropped file, which already has the rotation and flip applied
+			if (mode !== 'copy') {
+				this.resetOrientation();
+				this.updateImageTransform();
+			}
+			this.currentMode = 'view';
+			this.updateModeUI();
+			this.syncCanvasWithImage();
+		}).open();
 	}
 
 	private createDrawingSettings() {
@@ -1312,6 +6141,7 @@ class ImageViewerModal extends Modal {
 		colorPicker.value = this.drawingColor;
 		colorPicker.addEventListener('change', (e) => {
 			this.drawingColor = (e.target as HTMLInputElement).value;
+			this.updateTextEditorStyle();
 		});
 		
 		// Line width slider
@@ -1335,5 +6165,466 @@ class ImageViewerModal extends Modal {
 			this.drawingLineWidth = value;
 			widthValue.textContent = value.toString();
 		});
+		
+		// Text size slider
+		const sizeGroup = settingsPanel.createDiv('setting-group');
+		sizeGroup.createEl('label', { text: 'Text:' });
+		const sizeSlider = sizeGroup.createEl('input', {
+			type: 'range',
+			cls: 'width-slider'
+		}) as HTMLInputElement;
+		sizeSlider.min = '8';
+		sizeSlider.max = '96';
+		sizeSlider.value = this.textFontSize.toString();
+		
+		const sizeValue = sizeGroup.createEl('span', {
+			cls: 'width-value',
+			text: this.textFontSize.toString()
+		});
+		
+		sizeSlider.addEventListener('input', (e) => {
+			const value = parseInt((e.target as HTMLInputElement).value);
+			this.textFontSize = value;
+			sizeValue.textContent = value.toString();
+			this.updateTextEditorStyle();
+		});
+		
+		// Bold and background fill for labels
+		const styleGroup = settingsPanel.createDiv('setting-group');
+		styleGroup.createEl('label', { text: 'Style:' });
+		const boldLabel = styleGroup.createEl('label', { cls: 'text-style-option' });
+		const boldToggle = boldLabel.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+		boldLabel.appendText('Bold');
+		boldToggle.checked = this.textBold;
+		boldToggle.addEventListener('change', () => {
+			this.textBold = boldToggle.checked;
+			this.updateTextEditorStyle();
+		});
+		
+		const backgroundLabel = styleGroup.createEl('label', { cls: 'text-style-option' });
+		const backgroundToggle = backgroundLabel.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+		backgroundLabel.appendText('Fill');
+		backgroundToggle.checked = this.textBackgroundEnabled;
+		backgroundToggle.addEventListener('change', () => {
+			this.textBackgroundEnabled = backgroundToggle.checked;
+			this.updateTextEditorStyle();
+		});
+		
+		const backgroundPicker = styleGroup.createEl('input', {
+			type: 'color',
+			cls: 'color-picker'
+		}) as HTMLInputElement;
+		backgroundPicker.value = this.textBackgroundColor;
+		backgroundPicker.addEventListener('change', () => {
+			this.textBackgroundColor = backgroundPicker.value;
+			this.textBackgroundEnabled = true;
+			backgroundToggle.checked = true;
+			this.updateTextEditorStyle();
+		});
+		
+		// Redaction style
+		const redactGroup = settingsPanel.createDiv('setting-group');
+		redactGroup.createEl('label', { text: 'Redact:' });
+		const redactSelect = redactGroup.createEl('select', { cls: 'dropdown redact-style' }) as HTMLSelectElement;
+		redactSelect.createEl('option', { value: 'pixelate', text: 'Pixelate' });
+		redactSelect.createEl('option', { value: 'blur', text: 'Blur' });
+		redactSelect.createEl('option', { value: 'solid', text: 'Solid fill' });
+		redactSelect.value = this.redactionStyle;
+		redactSelect.addEventListener('change', () => {
+			this.redactionStyle = redactSelect.value as RedactionStyle;
+		});
+		
+		// Numbered steps
+		const stepsGroup = settingsPanel.createDiv('setting-group');
+		stepsGroup.createEl('label', { text: 'Steps:' });
+		const stepListButton = stepsGroup.createEl('button', {
+			cls: 'step-list-btn',
+			text: 'Add list to note'
+		});
+		stepListButton.addEventListener('click', () => this.insertStepList());
+		
+		// Keep the inline editor open while its style is changed, then hand focus back
+		settingsPanel.addEventListener('mousedown', (e) => {
+			if (this.textEditor && !(e.target instanceof HTMLInputElement) && !(e.target instanceof HTMLSelectElement)) {
+				e.preventDefault();
+			}
+		});
+		settingsPanel.addEventListener('change', () => {
+			this.textEditor?.element.focus();
+		});
+		
+		this.textSettingsInputs = { colorPicker, sizeSlider, sizeValue, boldToggle, backgroundToggle, backgroundPicker };
+	}
+
+	private syncTextSettingsUI() {
+		if (!this.textSettingsInputs) return;
+		
+		const inputs = this.textSettingsInputs;
+		inputs.colorPicker.value = this.drawingColor;
+		inputs.sizeSlider.value = this.textFontSize.toString();
+		inputs.sizeValue.textContent = this.textFontSize.toString();
+		inputs.boldToggle.checked = this.textBold;
+		inputs.backgroundToggle.checked = this.textBackgroundEnabled;
+		inputs.backgroundPicker.value = this.textBackgroundColor;
+	}
+}
+
+class ImageViewerSettingTab extends PluginSettingTab {
+	plugin: ImageViewerPlugin;
+
+	constructor(app: App, plugin: ImageViewerPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+
+		new Setting(containerEl)
+			.setName('Show copy button')
+			.setDesc('Show the copy button in the viewer controls.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showCopyButton)
+				.onChange(async (value) => {
+					this.plugin.settings.showCopyButton = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Enable keyboard shortcuts')
+			.setDesc('Use single-key shortcuts while the viewer is open.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableKeyboardShortcuts)
+				.onChange(async (value) => {
+					this.plugin.settings.enableKeyboardShortcuts = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Crisp pixels when zoomed in')
+			.setDesc('Show hard pixel edges instead of smoothing from 200% zoom, which keeps screenshots sharp.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.crispPixels)
+				.onChange(async (value) => {
+					this.plugin.settings.crispPixels = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Smart invert in dark theme')
+			.setDesc('Open images with smart invert on while the dark theme is active, so diagrams on white backgrounds don\'t glare. Hues are kept.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.smartInvertInDarkTheme)
+				.onChange(async (value) => {
+					this.plugin.settings.smartInvertInDarkTheme = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Zoom increment')
+			.setDesc('How much each zoom step changes the scale.')
+			.addSlider(slider => slider
+				.setLimits(0.05, 1, 0.05)
+				.setValue(this.plugin.settings.zoomIncrement)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.zoomIncrement = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Slideshow' });
+
+		new Setting(containerEl)
+			.setName('Interval')
+			.setDesc('Seconds each image is shown.')
+			.addSlider(slider => slider
+				.setLimits(1, 60, 1)
+				.setValue(this.plugin.settings.slideshowInterval)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.slideshowInterval = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Loop')
+			.setDesc('Start over after the last image.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.slideshowLoop)
+				.onChange(async (value) => {
+					this.plugin.settings.slideshowLoop = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Shuffle')
+			.setDesc('Show the images in random order.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.slideshowShuffle)
+				.onChange(async (value) => {
+					this.plugin.settings.slideshowShuffle = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fade between images')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.slideshowFade)
+				.onChange(async (value) => {
+					this.plugin.settings.slideshowFade = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+}
+
+type ImageBrowserSort = 'name' | 'modified' | 'size';
+
+class ImageBrowserView extends ItemView {
+	private plugin: ImageViewerPlugin;
+	private images: TFile[] = [];
+	private filtered: TFile[] = [];
+	private folderFilter: string = '';
+	private searchQuery: string = '';
+	private sortBy: ImageBrowserSort = 'name';
+	private sortDescending: boolean = false;
+	private collapsedFolders: Set<string> = new Set();
+	private treeEl: HTMLElement;
+	private gridEl: HTMLElement;
+	private gridSpacer: HTMLElement;
+	private countEl: HTMLElement;
+	// Tiles currently in the DOM, keyed by index into `filtered`
+	private renderedTiles: Map<number, HTMLElement> = new Map();
+	private requestRefresh = debounce(() => this.refresh(), 300, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: ImageViewerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_IMAGE_BROWSER;
+	}
+
+	getDisplayText(): string {
+		return 'Image browser';
+	}
+
+	getIcon(): string {
+		return 'image';
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('image-browser-view');
+
+		// Search and sort
+		const toolbar = container.createDiv('image-browser-toolbar');
+		const searchInput = toolbar.createEl('input', {
+			type: 'search',
+			cls: 'image-browser-search',
+			attr: { placeholder: 'Search file names…' }
+		});
+		searchInput.addEventListener('input', () => {
+			this.searchQuery = searchInput.value.trim().toLowerCase();
+			this.applyFilter();
+		});
+
+		const sortSelect = toolbar.createEl('select', { cls: 'dropdown' });
+		sortSelect.createEl('option', { value: 'name', text: 'Name' });
+		sortSelect.createEl('option', { value: 'modified', text: 'Date modified' });
+		sortSelect.createEl('option', { value: 'size', text: 'Size' });
+		sortSelect.value = this.sortBy;
+		sortSelect.addEventListener('change', () => {
+			this.sortBy = sortSelect.value as ImageBrowserSort;
+			this.applyFilter();
+		});
+
+		const directionButton = toolbar.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': 'Reverse order' } });
+		setIcon(directionButton, 'arrow-up-down');
+		directionButton.addEventListener('click', () => {
+			this.sortDescending = !this.sortDescending;
+			this.applyFilter();
+		});
+
+		this.countEl = toolbar.createSpan('image-browser-count');
+
+		// Folder tree next to the thumbnail grid
+		const body = container.createDiv('image-browser-body');
+		this.treeEl = body.createDiv('image-browser-tree');
+		this.gridEl = body.createDiv('image-browser-grid');
+		this.gridSpacer = this.gridEl.createDiv('image-browser-grid-spacer');
+		this.gridEl.addEventListener('scroll', () => this.renderVisibleTiles());
+
+		// Keep the listing in step with the vault
+		this.registerEvent(this.app.vault.on('create', () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on('delete', () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on('rename', () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (file instanceof TFile && isImageFile(file)) this.requestRefresh();
+		}));
+
+		this.refresh();
+	}
+
+	async onClose() {
+		this.renderedTiles.clear();
+		this.contentEl.empty();
+	}
+
+	onResize() {
+		this.renderVisibleTiles(true);
+	}
+
+	private refresh() {
+		this.images = this.app.vault.getFiles().filter(isImageFile);
+		if (this.folderFilter && !this.images.some(file => this.isInFolder(file, this.folderFilter))) {
+			this.folderFilter = '';
+		}
+		this.renderTree();
+		this.applyFilter();
+	}
+
+	private isInFolder(file: TFile, folder: string): boolean {
+		return !folder || file.path.startsWith(folder + '/');
+	}
+
+	private renderTree() {
+		this.treeEl.empty();
+
+		// Count images per folder, including everything below it
+		const counts = new Map<string, number>();
+		this.images.forEach(file => {
+			let folder = file.parent;
+			// The vault root has no parent and is covered by "All images"
+			while (folder && folder.parent) {
+				counts.set(folder.path, (counts.get(folder.path) || 0) + 1);
+				folder = folder.parent;
+			}
+		});
+
+		this.renderTreeItem(this.treeEl, '', 'All images', this.images.length, 0);
+		const renderChildren = (parent: TFolder, containerEl: HTMLElement, depth: number) => {
+			parent.children
+				.filter((child): child is TFolder => child instanceof TFolder && counts.has(child.path))
+				.sort((a, b) => a.name.localeCompare(b.name))
+				.forEach(folder => {
+					const hasSubfolders = folder.children.some(child => child instanceof TFolder && counts.has(child.path));
+					this.renderTreeItem(containerEl, folder.path, folder.name, counts.get(folder.path) || 0, depth, hasSubfolders);
+					if (hasSubfolders && !this.collapsedFolders.has(folder.path)) {
+						renderChildren(folder, containerEl, depth + 1);
+					}
+				});
+		};
+		renderChildren(this.app.vault.getRoot(), this.treeEl, 1);
+	}
+
+	private renderTreeItem(containerEl: HTMLElement, path: string, name: string, count: number, depth: number, hasSubfolders = false) {
+		const item = containerEl.createDiv('image-browser-tree-item');
+		item.style.paddingLeft = `${depth * 14 + 4}px`;
+		item.toggleClass('is-active', path === this.folderFilter);
+
+		const collapseIcon = item.createSpan('image-browser-tree-collapse');
+		if (hasSubfolders) {
+			setIcon(collapseIcon, this.collapsedFolders.has(path) ? 'chevron-right' : 'chevron-down');
+			collapseIcon.addEventListener('click', (e) => {
+				e.stopPropagation();
+				if (this.collapsedFolders.has(path)) {
+					this.collapsedFolders.delete(path);
+				} else {
+					this.collapsedFolders.add(path);
+				}
+				this.renderTree();
+			});
+		}
+
+		item.createSpan({ cls: 'image-browser-tree-name', text: name });
+		item.createSpan({ cls: 'image-browser-tree-count', text: count.toString() });
+		item.addEventListener('click', () => {
+			this.folderFilter = path;
+			this.renderTree();
+			this.applyFilter();
+		});
+	}
+
+	private applyFilter() {
+		this.filtered = this.images.filter(file =>
+			this.isInFolder(file, this.folderFilter) &&
+			(!this.searchQuery || file.name.toLowerCase().includes(this.searchQuery))
+		);
+
+		const direction = this.sortDescending ? -1 : 1;
+		this.filtered.sort((a, b) => {
+			switch (this.sortBy) {
+				case 'modified':
+					return (a.stat.mtime - b.stat.mtime) * direction;
+				case 'size':
+					return (a.stat.size - b.stat.size) * direction;
+				default:
+					return a.name.localeCompare(b.name, undefined, { numeric: true }) * direction;
+			}
+		});
+
+		this.countEl.textContent = `${this.filtered.length} image${this.filtered.length === 1 ? '' : 's'}`;
+		this.gridEl.scrollTop = 0;
+		this.renderVisibleTiles(true);
+	}
+
+	private getGridLayout() {
+		const width = this.gridEl.clientWidth - IMAGE_BROWSER_GAP;
+		const columns = Math.max(1, Math.floor(width / (IMAGE_BROWSER_TILE_SIZE + IMAGE_BROWSER_GAP)));
+		const tileWidth = Math.floor(width / columns) - IMAGE_BROWSER_GAP;
+		const rowHeight = IMAGE_BROWSER_TILE_SIZE + IMAGE_BROWSER_GAP;
+		return { columns, tileWidth, rowHeight };
+	}
+
+	private renderVisibleTiles(relayout = false) {
+		if (!this.gridEl) return;
+		if (relayout) {
+			this.renderedTiles.forEach(tile => tile.remove());
+			this.renderedTiles.clear();
+		}
+
+		// Only the rows in (or near) view exist in the DOM, so huge vaults stay responsive
+		const { columns, tileWidth, rowHeight } = this.getGridLayout();
+		const rows = Math.ceil(this.filtered.length / columns);
+		this.gridSpacer.style.height = `${rows * rowHeight + IMAGE_BROWSER_GAP}px`;
+
+		const firstRow = Math.max(0, Math.floor(this.gridEl.scrollTop / rowHeight) - 2);
+		const lastRow = Math.min(rows - 1, Math.ceil((this.gridEl.scrollTop + this.gridEl.clientHeight) / rowHeight) + 2);
+		const first = firstRow * columns;
+		const last = Math.min(this.filtered.length - 1, (lastRow + 1) * columns - 1);
+
+		this.renderedTiles.forEach((tile, index) => {
+			if (index < first || index > last) {
+				tile.remove();
+				this.renderedTiles.delete(index);
+			}
+		});
+
+		for (let index = first; index <= last; index++) {
+			if (this.renderedTiles.has(index)) continue;
+
+			const file = this.filtered[index];
+			const tile = this.gridEl.createDiv({ cls: 'image-browser-tile', attr: { title: file.path } });
+			tile.style.left = `${(index % columns) * (tileWidth + IMAGE_BROWSER_GAP) + IMAGE_BROWSER_GAP}px`;
+			tile.style.top = `${Math.floor(index / columns) * rowHeight + IMAGE_BROWSER_GAP}px`;
+			tile.style.width = `${tileWidth}px`;
+			tile.style.height = `${IMAGE_BROWSER_TILE_SIZE}px`;
+
+			const thumbnail = tile.createEl('img', { attr: { src: this.app.vault.getResourcePath(file), loading: 'lazy' } });
+			thumbnail.draggable = false;
+			tile.createDiv({ cls: 'image-browser-tile-name', text: file.name });
+			tile.addEventListener('click', () => this.openImage(index));
+
+			this.renderedTiles.set(index, tile);
+		}
+	}
+
+	private openImage(index: number) {
+		// Navigation in the viewer follows the current filter and sort order
+		const sources = this.filtered.map(file => this.app.vault.getResourcePath(file));
+		new ImageViewerModal(this.app, sources[index], this.plugin.settings, this.contentEl.ownerDocument, null, sources).open();
 	}
-}
\ No newline at end of file
+}